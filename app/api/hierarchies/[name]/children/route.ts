@@ -0,0 +1,36 @@
+import { findNodeById, nestFlatToTree, toFlatItems } from "@/lib/hierarchy";
+import { readDataset } from "../../datasets";
+
+/**
+ * GET /api/hierarchies/:name/children?id=<node id>
+ * Direct children of a node (top-level nodes without `id`), each flagged
+ * with `hasChildren` instead of carrying its subtree. Stand-in for a
+ * server that can't ship the whole tree; see childrenFromUrl().
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+  const data = await readDataset(name);
+  if (data === null)
+    return Response.json(
+      { error: `Unknown hierarchy dataset "${name}"` },
+      { status: 404 }
+    );
+
+  const tree = nestFlatToTree(toFlatItems(data));
+  const id = new URL(req.url).searchParams.get("id");
+  const node = id === null ? tree : findNodeById(tree, id);
+  if (!node)
+    return Response.json({ error: `Unknown node "${id}"` }, { status: 404 });
+
+  const children = (node.children ?? []).map((c) => ({
+    id: c.id,
+    name: c.name,
+    source: c.source,
+    value: c.value,
+    hasChildren: !!c.children?.length,
+  }));
+  return Response.json(children, { headers: { "Cache-Control": "no-store" } });
+}
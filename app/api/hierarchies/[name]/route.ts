@@ -0,0 +1,16 @@
+import { readDataset } from "../datasets";
+
+/** GET /api/hierarchies/:name → contents of data/hierarchies/:name.json */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+  const data = await readDataset(name);
+  if (data === null)
+    return Response.json(
+      { error: `Unknown hierarchy dataset "${name}"` },
+      { status: 404 }
+    );
+  return Response.json(data, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,31 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/** Named hierarchy datasets live as JSON files in data/hierarchies/ */
+export const DATASET_DIR = path.join(process.cwd(), "data", "hierarchies");
+
+// Names map straight to file names, so keep them to a safe charset
+const VALID_NAME = /^[\w-]+$/;
+
+export async function listDatasets(): Promise<string[]> {
+  const files = await fs.readdir(DATASET_DIR).catch(() => [] as string[]);
+  return files
+    .filter((f) => f.endsWith(".json"))
+    .map((f) => f.slice(0, -".json".length))
+    .sort();
+}
+
+/** Parsed dataset, or null when the name is invalid or unknown */
+export async function readDataset(name: string): Promise<unknown | null> {
+  if (!VALID_NAME.test(name)) return null;
+  try {
+    const text = await fs.readFile(
+      path.join(DATASET_DIR, `${name}.json`),
+      "utf8"
+    );
+    return JSON.parse(text);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
+}
@@ -0,0 +1,6 @@
+import { listDatasets } from "./datasets";
+
+/** GET /api/hierarchies → { datasets: ["ford-europe", …] } */
+export async function GET() {
+  return Response.json({ datasets: await listDatasets() });
+}
@@ -1,6 +1,8 @@
 "use client";
 
+import { Suspense } from "react";
 import dynamic from "next/dynamic";
+import { useGraphUrlState } from "@/lib/useUrlState";
 
 const FinanceSigmaGraph = dynamic(
   () => import("@/components/FinanceSigmaGraph"),
@@ -13,8 +15,17 @@ export default function Page() {
       <h1 style={{ marginBottom: 8 }}>Finance Network Graph</h1>
       <p style={{ opacity: 0.8, marginBottom: 16 }}>
         Data loaded from finance-dataset Click nodes to focus, search to find.
+        Click legend entries to hide clusters; the view is kept in the URL.
       </p>
-      <FinanceSigmaGraph datasetUrl="/finance-dataset.json" />
+      {/* useSearchParams (URL state) needs a Suspense boundary */}
+      <Suspense>
+        <UrlSyncedGraph />
+      </Suspense>
     </main>
   );
 }
+
+function UrlSyncedGraph() {
+  const view = useGraphUrlState();
+  return <FinanceSigmaGraph datasetUrl="/finance-dataset.json" {...view} />;
+}
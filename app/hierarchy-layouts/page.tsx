@@ -0,0 +1,53 @@
+"use client";
+
+import HierarchyExplorer from "@/components/HierarchyExplorer";
+import Icicle from "@/components/Icicle";
+import PackedBubbles from "@/components/PackedBubbles";
+import Sunburst from "@/components/Sunburst";
+import Treemap from "@/components/Treemap";
+import sample from "@/data/hierarchies/ford-corporate.json";
+
+const charts = [
+  { title: "Treemap", Chart: Treemap },
+  { title: "Icicle", Chart: Icicle },
+  { title: "Sunburst", Chart: Sunburst },
+];
+
+export default function Page() {
+  return (
+    <main style={{ padding: 16 }}>
+      <h1 style={{ marginBottom: 8 }}>Hierarchy Layouts</h1>
+      <p style={{ opacity: 0.8, marginBottom: 16 }}>
+        The same rows in every encoding. The explorer morphs between them and
+        keeps its drill path and selection; the charts below drill
+        independently. Colors follow the top-level branch as in the bubble
+        charts.
+      </p>
+      <section style={{ marginBottom: 32 }}>
+        <h2 style={{ margin: "8px 0" }}>Explorer</h2>
+        <div style={{ height: 520 }}>
+          <HierarchyExplorer data={sample} />
+        </div>
+      </section>
+      {charts.map(({ title, Chart }) => (
+        <section key={title} style={{ marginBottom: 32 }}>
+          <h2 style={{ margin: "8px 0" }}>{title}</h2>
+          <div style={{ height: 520 }}>
+            <Chart data={sample} />
+          </div>
+        </section>
+      ))}
+      <section style={{ marginBottom: 32 }}>
+        <h2 style={{ margin: "8px 0" }}>Nested clusters</h2>
+        <div style={{ height: 520 }}>
+          <PackedBubbles
+            data={sample}
+            groupBy="hierarchy"
+            outline="hull"
+            seed={1}
+          />
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import BubbleHierarchy from "@/components/BubbleHierarchy";
+import { childrenFromUrl } from "@/lib/useLazyChildren";
+
+const CHILDREN_URL = "/api/hierarchies/ford-europe/children";
+const loadChildren = childrenFromUrl(CHILDREN_URL);
+
+export default function Page() {
+  return (
+    <main style={{ padding: 16 }}>
+      <h1 style={{ marginBottom: 8 }}>Lazy Bubble Hierarchy</h1>
+      <p style={{ opacity: 0.8, marginBottom: 16 }}>
+        Only the top level is loaded up front; children are fetched from the API
+        when a bubble is clicked.
+      </p>
+      <div style={{ height: 520 }}>
+        <BubbleHierarchy dataUrl={CHILDREN_URL} loadChildren={loadChildren} />
+      </div>
+    </main>
+  );
+}
@@ -1,61 +1,51 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef } from "react";
+import { HierarchyCircularNode } from "d3-hierarchy";
 import {
-  hierarchy as d3Hierarchy,
-  pack as d3Pack,
-  HierarchyCircularNode,
-} from "d3-hierarchy";
-import { scaleOrdinal } from "d3-scale";
-import { schemeCategory10 } from "d3-scale-chromatic";
+  FlatItem,
+  TreeNode,
+  HierarchyIssue,
+  NestedItem,
+  nestFlatToTree,
+  flattenNested,
+} from "@/lib/hierarchy";
+import { useRemoteHierarchy } from "@/lib/useRemoteHierarchy";
+import {
+  HierarchyNavigationProps,
+  useHierarchyNavigation,
+} from "@/lib/useHierarchyNavigation";
+import { categoryColor, colorKeys } from "@/lib/hierarchyColors";
+import { Aggregation, formatMeasure, measureLabel } from "@/lib/measures";
+import { useMeasures } from "@/lib/useMeasures";
+import { useHierarchySearch } from "@/lib/useHierarchySearch";
+import { packFromPositions } from "@/lib/packLayout";
+import { useLayoutJob } from "@/lib/useLayoutJob";
+import { TREEITEM_FOCUS_CSS, useRovingTree } from "@/lib/useRovingTree";
+import { useZoom } from "@/lib/useZoom";
+import type { PackCanvasStyle } from "@/lib/packCanvas";
+import HierarchyIssuesPanel from "@/components/HierarchyIssuesPanel";
+import HierarchyLoadStatus from "@/components/HierarchyLoadStatus";
+import MeasureControls from "@/components/MeasureControls";
+import HierarchySearch, { SELECTED_STROKE } from "@/components/HierarchySearch";
+import LayoutProgress from "@/components/LayoutProgress";
+import PackCanvas from "@/components/PackCanvas";
 
 /** ---------- Types ---------- */
-type FlatItem = {
-  name: string;
-  level: number; // 1..6
-  parent?: string;
-  source?: string;
-  value?: number; // optional weight; defaults to 1
-};
-
-type TreeNode = {
-  name: string;
-  level?: number;
-  parent?: string;
-  source?: string;
-  value?: number;
-  children?: TreeNode[];
-};
-
-type PackedBubblesProps = {
-  data: FlatItem[];
+type PackedBubblesProps = HierarchyNavigationProps & {
+  data?: FlatItem[];
+  tree?: NestedItem | NestedItem[]; // pre-nested alternative to `data`
+  dataUrl?: string; // fetch rows (FlatItem[] or nested JSON) instead
+  refreshInterval?: number; // ms between background refetches of dataUrl
+  sizeBy?: string; // initial metric for bubble area: "value" or a measure name
+  aggregation?: Aggregation; // initial rollup shown for parent bubbles
+  searchFields?: string[]; // node fields the search box matches (default name)
   padding?: number; // spacing between circles
   bg?: string; // background color
+  renderer?: "svg" | "canvas"; // canvas: one element, for very large trees
 };
 
 /** ---------- Utils ---------- */
-function nestFlatToTree(items: FlatItem[]): TreeNode {
-  const byName = new Map<string, TreeNode>();
-  for (const it of items) {
-    if (it.level < 1 || it.level > 6) {
-      throw new Error(
-        `Level out of range (1..6) for "${it.name}" - got ${it.level}`
-      );
-    }
-    byName.set(it.name, { ...it, children: [] });
-  }
-  const roots: TreeNode[] = [];
-  for (const node of byName.values()) {
-    if (node.level === 1) roots.push(node);
-    else {
-      const p = node.parent ? byName.get(node.parent) : undefined;
-      if (p) p.children!.push(node);
-      else roots.push(node);
-    }
-  }
-  return { name: "root", children: roots };
-}
-
 type AnyRef<T> = React.RefObject<T | null> | React.MutableRefObject<T | null>;
 function useResizeObserver<T extends HTMLElement>(
   ref: AnyRef<T>
@@ -76,54 +66,194 @@ function useResizeObserver<T extends HTMLElement>(
   return size;
 }
 
+const FOCUS_MS = 420; // click-to-focus transition
+const MIN_LABEL_R = 14; // on-screen radius (px) below which labels hide
+const FOCUS_RING = "#93c5fd"; // keyboard focus on the canvas (as TREEITEM_FOCUS_CSS)
+
+/** In the accessibility tree, but not painted */
+const visuallyHidden: React.CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+};
+
 /** ---------- Component ---------- */
 export default function CircularPacking({
   data,
+  tree: nested,
+  dataUrl,
+  refreshInterval,
+  sizeBy,
+  aggregation,
+  searchFields,
   padding = 6,
   bg = "#0b1220",
+  renderer = "svg",
+  ...navProps
 }: PackedBubblesProps) {
-  const tree: TreeNode = useMemo(() => nestFlatToTree(data), [data]);
-  const color = useMemo(
-    () => scaleOrdinal<string, string>(schemeCategory10),
-    []
-  );
+  const remote = useRemoteHierarchy(dataUrl, { refreshInterval });
+  const { tree, issues } = useMemo(() => {
+    const issues: HierarchyIssue[] = [];
+    const items = dataUrl
+      ? (remote.items ?? [])
+      : nested
+        ? flattenNested(nested)
+        : (data ?? []);
+    return { tree: nestFlatToTree(items, issues), issues };
+  }, [data, nested, dataUrl, remote.items]);
+  const measures = useMeasures(tree, { sizeBy, aggregation });
+  const search = useHierarchySearch(tree, searchFields);
+  const color = useMemo(categoryColor, []);
 
   // container & responsive sizing
   const containerRef = useRef<HTMLDivElement>(null);
   const { w, h } = useResizeObserver(containerRef);
   const side = Math.max(320, Math.min(w || 900, h || 600)); // square canvas
 
-  // build packed layout
-  const packRoot = useMemo<HierarchyCircularNode<TreeNode>>(() => {
-    const root = d3Hierarchy(tree)
-      .sum((d) => (typeof d.value === "number" ? d.value : 1))
-      .sort((a, b) => (b.value || 0) - (a.value || 0));
-    return d3Pack<TreeNode>().size([side, side]).padding(padding)(
-      root
-    ) as HierarchyCircularNode<TreeNode>;
-  }, [tree, side, padding]);
-
-  // zoom focus node
-  const [focus, setFocus] = useState<HierarchyCircularNode<TreeNode> | null>(
-    null
+  // build packed layout (leaves sized by the selected measure); large
+  // trees are packed in the layout worker while the last layout stays up
+  const packJob = useLayoutJob(
+    "pack",
+    useMemo(
+      () => ({
+        tree,
+        width: side,
+        height: side,
+        padding,
+        sizes: measures.sizes,
+      }),
+      [tree, side, padding, measures.sizes]
+    )
+  );
+  const packRoot = useMemo<HierarchyCircularNode<TreeNode>>(
+    () => packFromPositions(tree, side, side, packJob.result),
+    [tree, side, packJob.result]
+  );
+
+  // zoom focus node (by id, so it survives re-layout on resize)
+  const nav = useHierarchyNavigation(tree, navProps);
+  const focus = useMemo(
+    () => packRoot.find((d) => d.data.id === nav.focusId) || packRoot,
+    [packRoot, nav.focusId]
   );
-  useEffect(() => setFocus(packRoot), [packRoot]);
 
-  // compute transform to center/zoom on focus
-  const cx = side / 2;
-  const cy = side / 2;
-  const k = focus ? side / (focus.r * 2) : 1;
-  const tx = focus ? cx - focus.x * k : 0;
-  const ty = focus ? cy - focus.y * k : 0;
+  // free pan / wheel / pinch zoom; deep enough to fill the view with the
+  // smallest bubble
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const maxScale = useMemo(() => {
+    let minR = packRoot.r;
+    packRoot.each((d) => {
+      if (d.r > 0) minR = Math.min(minR, d.r);
+    });
+    return Math.max(8, (side / (2 * minR)) * 2);
+  }, [packRoot, side]);
+  const { transform: t, zoomTo } = useZoom(surfaceRef, {
+    minScale: 0.5,
+    maxScale,
+  });
+
+  // center/zoom on focus (instantly on first layout)
+  const fitTo = React.useCallback(
+    (d: HierarchyCircularNode<TreeNode>, duration: number) => {
+      if (!(d.r > 0)) return; // not laid out yet
+      const k = side / (d.r * 2);
+      zoomTo({ x: side / 2 - d.x * k, y: side / 2 - d.y * k, k }, duration);
+    },
+    [side, zoomTo]
+  );
+  const laidOut = useRef(false);
+  useEffect(() => {
+    fitTo(focus, laidOut.current ? FOCUS_MS : 0);
+    laidOut.current = true;
+  }, [focus, fitTo]);
 
   // click handlers
-  const handleBackgroundClick = () => setFocus(packRoot);
+  const handleBackgroundClick = () =>
+    focus === packRoot ? fitTo(packRoot, FOCUS_MS) : nav.goTo([]);
   const handleNodeClick = (d: HierarchyCircularNode<TreeNode>) => {
-    if (focus === d && d.parent)
-      setFocus(d.parent); // click again → zoom out one level
-    else setFocus(d);
+    if (focus === d)
+      nav.drillUp(); // click again → zoom out one level
+    else nav.drillDown(d.data);
   };
 
+  // shared by both renderers: color by top-level ancestor for stable
+  // grouping, same handlers for every bubble
+  const topOf = useMemo(() => colorKeys(tree), [tree]);
+  const isBranch = (d: HierarchyCircularNode<TreeNode>) =>
+    !!d.children && d.children.length > 0;
+  const nodeProps = (d: HierarchyCircularNode<TreeNode>) =>
+    nav.getNodeProps(d.data, "main", (e) => {
+      e.stopPropagation();
+      if (isBranch(d)) handleNodeClick(d);
+    });
+  // keyboard: roving focus + ARIA tree over every bubble
+  // (classic circle-packing hides the outermost root circle)
+  const bubbles = useMemo(
+    () => packRoot.descendants().filter((d) => d.depth > 0),
+    [packRoot]
+  );
+  // The canvas has no per-node elements: keyboard focus moves through an
+  // offscreen list of the focused bubble's children and grandchildren
+  // (small even for huge trees), and the canvas draws the focus ring
+  const keyboardBubbles = useMemo(
+    () =>
+      renderer === "svg"
+        ? bubbles
+        : focus
+            .descendants()
+            .filter((d) => d.depth > focus.depth && d.depth <= focus.depth + 2),
+    [bubbles, renderer, focus]
+  );
+  const [listFocused, setListFocused] = React.useState(false);
+  const treeNav = useRovingTree(
+    useMemo(
+      () =>
+        keyboardBubbles.map((d) => ({
+          id: d.data.id,
+          parentId: d.depth > 1 ? d.parent!.data.id : null,
+          level: d.depth,
+          branch: !!d.children?.length,
+        })),
+      [keyboardBubbles]
+    ),
+    {
+      onEnter: (id) => {
+        const d = bubbles.find((b) => b.data.id === id);
+        if (d?.children?.length) handleNodeClick(d);
+      },
+      onBack: () => {
+        if (focus === packRoot) return;
+        nav.drillUp();
+        return focus.data.id; // keep the bubble we zoomed out of
+      },
+      focusKey: nav.focusId,
+    }
+  );
+
+  const { isDimmed, selectedId } = search;
+  const ringId = listFocused ? treeNav.activeId : null;
+  const canvasStyle = React.useCallback(
+    (d: HierarchyCircularNode<TreeNode>): PackCanvasStyle => {
+      const selected = selectedId === d.data.id;
+      const ring = ringId === d.data.id;
+      return {
+        fill: String(color(topOf.get(d.data.id) ?? "root")),
+        fillOpacity: d.children ? 0.78 : 0.9,
+        stroke: ring
+          ? FOCUS_RING
+          : selected
+            ? SELECTED_STROKE
+            : "rgba(255,255,255,0.18)",
+        strokeWidth: selected || ring ? 3 : 1.2,
+        opacity: isDimmed(d.data.id) ? 0.25 : 1,
+      };
+    },
+    [color, topOf, isDimmed, selectedId, ringId]
+  );
+
   return (
     <div
       ref={containerRef}
@@ -137,75 +267,146 @@ export default function CircularPacking({
         overflow: "hidden",
       }}
     >
-      <svg width={side} height={side} style={{ display: "block" }}>
-        {/* background for easy zoom-out */}
-        <rect
-          x={0}
-          y={0}
-          width={side}
-          height={side}
-          fill="transparent"
-          onClick={handleBackgroundClick}
-        />
+      <div
+        ref={surfaceRef}
+        style={{ width: side, height: side, touchAction: "none" }}
+      >
+        {renderer === "canvas" ? (
+          <>
+            <PackCanvas
+              root={packRoot}
+              width={side}
+              height={side}
+              transform={t}
+              styleOf={canvasStyle}
+              minLabelR={MIN_LABEL_R}
+              getNodeProps={nodeProps}
+              isClickable={isBranch}
+              onBackgroundClick={handleBackgroundClick}
+              label={`Circle packing, zoomed to ${nav.breadcrumb.map((b) => b.name).join(" / ") || "root"}`}
+            />
+            <ul
+              role="tree"
+              aria-label={tree.name}
+              onFocus={() => setListFocused(true)}
+              onBlur={() => setListFocused(false)}
+              style={visuallyHidden}
+            >
+              {keyboardBubbles.map((d) => (
+                <li
+                  key={d.data.id}
+                  {...treeNav.getItemProps(d.data.id)}
+                  aria-label={d.data.name}
+                />
+              ))}
+            </ul>
+          </>
+        ) : (
+          <svg width={side} height={side} style={{ display: "block" }}>
+            {/* background for easy zoom-out */}
+            <rect
+              x={0}
+              y={0}
+              width={side}
+              height={side}
+              fill="transparent"
+              onClick={handleBackgroundClick}
+            />
 
-        {/* Zooming layer */}
-        <g
-          style={{
-            transform: `translate(${tx}px, ${ty}px) scale(${k})`,
-            transition: "transform 420ms cubic-bezier(.2,.8,.2,1)",
-          }}
-        >
-          {packRoot
-            .descendants()
-            // classic circle-packing usually hides the outermost root circle
-            .filter((d) => d.depth > 0)
-            .map((d, i) => {
-              // color by top-level ancestor for stable grouping
-              const top =
-                d.ancestors().length > 1
-                  ? d.ancestors()[d.ancestors().length - 2].data.name
-                  : "root";
-              const isBranch = !!d.children && d.children.length > 0;
-              const labelVisible = d.r > 14;
-
-              return (
-                <g
-                  key={`${d.data.name}-${i}`}
-                  style={{ transform: `translate(${d.x}px, ${d.y}px)` }}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    if (isBranch) handleNodeClick(d);
-                  }}
-                >
-                  <circle
-                    r={d.r}
-                    fill={String(color(top))}
-                    fillOpacity={isBranch ? 0.78 : 0.9}
-                    stroke="rgba(255,255,255,0.18)"
-                    strokeWidth={1.2}
-                    style={{ cursor: isBranch ? "pointer" : "default" }}
-                  />
-                  {labelVisible && (
-                    <text
-                      textAnchor="middle"
-                      dy="0.35em"
-                      style={{
-                        pointerEvents: "none",
-                        fill: "#fff",
-                        fontWeight: 600,
-                        fontSize: Math.max(10, Math.min(18, d.r / 3)),
-                        filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
-                      }}
-                    >
-                      {d.data.name}
-                    </text>
-                  )}
-                  <title>{d.data.name}</title>
-                </g>
-              );
-            })}
-        </g>
-      </svg>
+            {/* Zooming layer */}
+            <g
+              role="tree"
+              aria-label={tree.name}
+              style={{
+                transform: `translate(${t.x}px, ${t.y}px) scale(${t.k})`,
+              }}
+            >
+              {bubbles.map((d) => {
+                const branch = isBranch(d);
+                const screenR = d.r * t.k;
+                const labelVisible = screenR > MIN_LABEL_R;
+
+                return (
+                  <g
+                    key={d.data.id}
+                    style={{
+                      transform: `translate(${d.x}px, ${d.y}px)`,
+                      opacity: search.isDimmed(d.data.id) ? 0.25 : 1,
+                    }}
+                    {...nodeProps(d)}
+                    {...treeNav.getItemProps(d.data.id)}
+                    aria-label={d.data.name}
+                  >
+                    <circle
+                      r={d.r}
+                      fill={String(color(topOf.get(d.data.id) ?? "root"))}
+                      fillOpacity={branch ? 0.78 : 0.9}
+                      stroke={
+                        search.selectedId === d.data.id
+                          ? SELECTED_STROKE
+                          : "rgba(255,255,255,0.18)"
+                      }
+                      strokeWidth={search.selectedId === d.data.id ? 3 : 1.2}
+                      vectorEffect="non-scaling-stroke"
+                      style={{ cursor: branch ? "pointer" : "default" }}
+                    />
+                    {labelVisible && (
+                      <text
+                        textAnchor="middle"
+                        dy="0.35em"
+                        style={{
+                          pointerEvents: "none",
+                          fill: "#fff",
+                          fontWeight: 600,
+                          // sized on screen, then undo the layer's scale
+                          fontSize:
+                            Math.max(10, Math.min(18, screenR / 3)) / t.k,
+                          filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
+                        }}
+                      >
+                        {d.data.name}
+                      </text>
+                    )}
+                    <title>
+                      {`${d.data.name}: ${measureLabel(measures.sizeBy, measures.aggregation)} = ${formatMeasure(measures.sizes.get(d.data.id) ?? 0)}`}
+                    </title>
+                  </g>
+                );
+              })}
+            </g>
+          </svg>
+        )}
+      </div>
+
+      {/* search + size controls */}
+      <div
+        style={{
+          position: "absolute",
+          left: 12,
+          top: 10,
+          display: "flex",
+          alignItems: "center",
+          gap: 12,
+        }}
+      >
+        <HierarchySearch search={search} onPick={(r) => nav.reveal(r.node)} />
+        <MeasureControls
+          metrics={measures.metrics}
+          sizeBy={measures.sizeBy}
+          aggregation={measures.aggregation}
+          onSizeByChange={measures.setSizeBy}
+          onAggregationChange={measures.setAggregation}
+        />
+      </div>
+      {/* zoom path, announced to screen readers */}
+      <div aria-live="polite" aria-atomic="true" style={visuallyHidden}>
+        {nav.breadcrumb.length
+          ? nav.breadcrumb.map((b) => b.name).join(" / ")
+          : "root"}
+      </div>
+      <HierarchyIssuesPanel issues={issues} />
+      <HierarchyLoadStatus remote={remote} hasData={!!remote.items} />
+      <LayoutProgress progress={packJob.progress} error={packJob.error} />
 
       {/* small help hint (optional) */}
       <div
@@ -218,8 +419,11 @@ export default function CircularPacking({
         }}
       >
         Click a larger bubble to zoom in. Click background (or the same bubble
-        again) to zoom out.
+        again) to zoom out. Scroll or pinch to zoom freely, drag to pan.
+        Keyboard: arrows move, Enter zooms in, Backspace zooms out.
       </div>
+
+      <style>{TREEITEM_FOCUS_CSS}</style>
     </div>
   );
 }
@@ -1,34 +1,44 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import {
-  hierarchy as d3Hierarchy,
-  pack as d3Pack,
-  HierarchyCircularNode,
-  HierarchyNode,
-} from "d3-hierarchy";
+import { HierarchyCircularNode } from "d3-hierarchy";
 import { scaleOrdinal } from "d3-scale";
 import { schemeCategory10 } from "d3-scale-chromatic";
-
-type FlatItem = {
-  name: string;
-  level: number; // 1..6
-  parent?: string;
-  source?: string;
-  value?: number; // optional weight (defaults to 1)
-};
-
-type TreeNode = {
-  name: string;
-  level?: number;
-  parent?: string;
-  source?: string;
-  value?: number;
-  children?: TreeNode[];
-};
-
-type BubbleHierarchyProps = {
-  data: FlatItem[];
+import {
+  FlatItem,
+  TreeNode,
+  HierarchyIssue,
+  NestedItem,
+  nestFlatToTree,
+  flattenNested,
+} from "@/lib/hierarchy";
+import { useRemoteHierarchy } from "@/lib/useRemoteHierarchy";
+import {
+  HierarchyNavigationProps,
+  useHierarchyNavigation,
+} from "@/lib/useHierarchyNavigation";
+import { LoadChildren, useLazyChildren } from "@/lib/useLazyChildren";
+import { Aggregation, formatMeasure, measureLabel } from "@/lib/measures";
+import { useMeasures } from "@/lib/useMeasures";
+import { packFromPositions } from "@/lib/packLayout";
+import type { LayoutInput } from "@/lib/layoutJobs";
+import { useLayoutJob } from "@/lib/useLayoutJob";
+import { TREEITEM_FOCUS_CSS, useRovingTree } from "@/lib/useRovingTree";
+import HierarchyBreadcrumb from "@/components/HierarchyBreadcrumb";
+import HierarchyIssuesPanel from "@/components/HierarchyIssuesPanel";
+import HierarchyLoadStatus from "@/components/HierarchyLoadStatus";
+import LayoutProgress from "@/components/LayoutProgress";
+import LazyBubbleBadge from "@/components/LazyBubbleBadge";
+import MeasureControls from "@/components/MeasureControls";
+
+type BubbleHierarchyProps = HierarchyNavigationProps & {
+  data?: FlatItem[];
+  tree?: NestedItem | NestedItem[]; // pre-nested alternative to `data`
+  dataUrl?: string; // fetch rows (FlatItem[] or nested JSON) instead
+  refreshInterval?: number; // ms between background refetches of dataUrl
+  loadChildren?: LoadChildren; // fetch children of `hasChildren` nodes on click
+  sizeBy?: string; // initial metric for bubble area: "value" or a measure name
+  aggregation?: Aggregation; // initial rollup for parent bubbles (default sum)
   width?: number;
   height?: number;
   padding?: number;
@@ -37,63 +47,6 @@ type BubbleHierarchyProps = {
 
 // ---------- Utilities ----------
 
-/**
- * Convert flat (level/parent) list into a single tree:
- * { name: "root", children: [ level1 nodes … ] }
- * - Validates max level <= 6
- * - Allows multiple level-1 roots
- */
-function nestFlatToTree(items: FlatItem[]): TreeNode {
-  const byName = new Map<string, TreeNode>();
-  for (const it of items) {
-    if (it.level < 1 || it.level > 6) {
-      throw new Error(
-        `Level out of range (1..6) for "${it.name}" - got ${it.level}`
-      );
-    }
-    byName.set(it.name, { ...it, children: [] });
-  }
-
-  const roots: TreeNode[] = [];
-  for (const node of byName.values()) {
-    if (node.level === 1) {
-      roots.push(node);
-    } else {
-      const p = node.parent ? byName.get(node.parent) : undefined;
-      if (p) p.children!.push(node);
-      else roots.push(node); // fallback: missing parent -> treat as root
-    }
-  }
-  return { name: "root", children: roots };
-}
-
-/** Find a node in the tree by name (used for restoring focus) */
-function findNodeByName(root: TreeNode, name: string): TreeNode | null {
-  if (root.name === name) return root;
-  if (!root.children) return null;
-  for (const c of root.children) {
-    const found = findNodeByName(c, name);
-    if (found) return found;
-  }
-  return null;
-}
-
-/** Compute a packed layout for a given subtree */
-function computePackLayout(
-  subtree: TreeNode,
-  width: number,
-  height: number,
-  padding: number
-): HierarchyCircularNode<TreeNode> {
-  const root = d3Hierarchy(subtree)
-    .sum((d) => (typeof d.value === "number" ? d.value : 1))
-    .sort((a, b) => (b.value || 0) - (a.value || 0));
-
-  return d3Pack<TreeNode>().size([width, height]).padding(padding)(
-    root
-  ) as HierarchyCircularNode<TreeNode>;
-}
-
 type AnyRef<T> = React.RefObject<T | null> | React.MutableRefObject<T | null>;
 
 function useResizeObserver<T extends HTMLElement>(
@@ -119,69 +72,52 @@ function useResizeObserver<T extends HTMLElement>(
   return size;
 }
 
-function findParentName(root: TreeNode, targetName: string): string | null {
-  function dfs(cur: TreeNode, parent: TreeNode | null): string | null {
-    if (cur.name === targetName) return parent?.name ?? null;
-    for (const c of cur.children || []) {
-      const r = dfs(c, cur);
-      if (r) return r;
-    }
-    return null;
-  }
-  return dfs(root, null);
-}
-
-/** Clone a node with only depth <= maxDepth (relative to this node) */
-function cloneDepthLimited(node: TreeNode, maxDepth: number): TreeNode {
-  const out: TreeNode = { ...node };
-  if (maxDepth <= 0 || !node.children?.length) {
-    out.children = [];
-    return out;
-  }
-  out.children = (node.children || []).map((c) =>
-    cloneDepthLimited(c, maxDepth - 1)
-  );
-  return out;
-}
-
-/** Assign values by relative depth: depth0>depth1>depth2 for clear sizes */
-function assignDepthValues(node: TreeNode, depth = 0): void {
-  // tweak these to taste
-  const weights = [1000, 300, 80]; // parent, children, grandchildren
-  node.value = weights[Math.min(depth, weights.length - 1)];
-  (node.children || []).forEach((c) => assignDepthValues(c, depth + 1));
-}
-
 // ---------- Component ----------
 
 export default function CircularPackingOverlay({
   data,
+  tree: nested,
+  dataUrl,
+  refreshInterval,
+  loadChildren,
+  sizeBy,
+  aggregation,
   width = 900,
   height = 600,
   padding = 6,
   bg = "#0b1220",
+  ...navProps
 }: BubbleHierarchyProps) {
   // Prepare tree
-  const tree: TreeNode = useMemo(() => nestFlatToTree(data), [data]);
+  const remote = useRemoteHierarchy(dataUrl, { refreshInterval });
+  const lazy = useLazyChildren(loadChildren);
+  const { tree, issues } = useMemo(() => {
+    const issues: HierarchyIssue[] = [];
+    const items = dataUrl
+      ? (remote.items ?? [])
+      : nested
+        ? flattenNested(nested)
+        : (data ?? []);
+    const all = lazy.rows.length ? [...items, ...lazy.rows] : items;
+    return { tree: nestFlatToTree(all, issues), issues };
+  }, [data, nested, dataUrl, remote.items, lazy.rows]);
+  const measures = useMeasures(tree, { sizeBy, aggregation });
 
   const color = React.useMemo(
     () => scaleOrdinal<string, string>(schemeCategory10),
     []
   );
 
-  // Focus node (the "current level" node whose children we show)
-  // Start at synthetic root (shows all level-1 items)
-  const [focusName, setFocusName] = useState<string>("root");
-
-  // Overlay (“overlay focus” + “is open”)
-  const [isOverlayOpen, setIsOverlayOpen] = useState(false);
-  const [overlayFocusName, setOverlayFocusName] = useState<string | null>(null);
-
-  // Re-find focus node from the immutable tree
-  const focusNode = useMemo(() => {
-    const node = findNodeByName(tree, focusName);
-    return node ?? tree;
-  }, [tree, focusName]);
+  // Focus (whose children we show), overlay focus and drill actions
+  const nav = useHierarchyNavigation(tree, { lazy, ...navProps });
+  const {
+    focusNode,
+    overlayNode,
+    overlayFocusId,
+    isOverlayOpen,
+    breadcrumb,
+    canDrillDown,
+  } = nav;
 
   // Layout sizing (responsive container)
   const containerRef = useRef<HTMLDivElement>(null);
@@ -189,90 +125,131 @@ export default function CircularPackingOverlay({
   const vw = Math.max(320, w || width);
   const vh = Math.max(360, h || height);
 
-  // Compute main pack for focusNode.children (Level N+1)
-  const packRoot = useMemo<HierarchyCircularNode<TreeNode>>(() => {
-    // If focus has children, pack that subtree; else pack focus itself
-    const target: TreeNode =
+  // Compute main pack for focusNode.children (Level N+1), in the layout
+  // worker when large
+  const packTarget = useMemo<TreeNode>(
+    () =>
+      // If focus has children, pack that subtree; else pack focus itself
       focusNode?.children && focusNode.children.length > 0
         ? { ...focusNode, children: focusNode.children }
-        : focusNode || tree;
-
-    return computePackLayout(target, vw, vh, padding);
-  }, [focusNode, vw, vh, padding, tree]);
-
-  // Compute overlay pack for overlay node (Level N+2)
-  const overlayNode = useMemo(() => {
-    if (!overlayFocusName) return null;
-    return findNodeByName(tree, overlayFocusName);
-  }, [overlayFocusName, tree]);
+        : focusNode || tree,
+    [focusNode, tree]
+  );
+  const packJob = useLayoutJob(
+    "pack",
+    useMemo(
+      () => ({
+        tree: packTarget,
+        width: vw,
+        height: vh,
+        padding,
+        sizes: measures.sizes,
+        depth: 1,
+      }),
+      [packTarget, vw, vh, padding, measures.sizes]
+    )
+  );
+  const packRoot = useMemo<HierarchyCircularNode<TreeNode>>(
+    () => packFromPositions(packTarget, vw, vh, packJob.result, 1),
+    [packTarget, vw, vh, packJob.result]
+  );
 
   // Used only to force re-animations when focus changes
   const [overlayAnimKey, setOverlayAnimKey] = useState(0);
   useEffect(() => {
-    if (isOverlayOpen && overlayFocusName) setOverlayAnimKey((k) => k + 1);
-  }, [isOverlayOpen, overlayFocusName]);
+    if (isOverlayOpen && overlayFocusId) setOverlayAnimKey((k) => k + 1);
+  }, [isOverlayOpen, overlayFocusId]);
 
   // overlay pack
-  const overlayPack = useMemo<HierarchyCircularNode<TreeNode> | null>(() => {
-    if (!overlayNode) return null;
-    // limit to 3 levels: focus (0), children (1), grandchildren (2)
-    const limited = cloneDepthLimited(overlayNode, 2);
-    assignDepthValues(limited); // ensure parent > children > grandchildren
-
-    const side = Math.min(vw, vh);
-    return computePackLayout(
-      limited,
-      Math.floor(side * 0.8),
-      Math.floor(side * 0.8),
-      Math.max(3, padding - 2)
-    );
-  }, [overlayNode, vw, vh, padding]);
-
-  // Breadcrumb path from root → focus
-  const breadcrumb = useMemo(() => {
-    const path: string[] = [];
-    function dfs(n: TreeNode, trail: string[]) {
-      if (n.name === focusName) {
-        breadcrumbFound = true;
-        for (const t of trail) path.push(t);
-        path.push(n.name);
-        return;
-      }
-      for (const c of n.children || []) {
-        if (breadcrumbFound) return;
-        dfs(c, [...trail, n.name]);
-      }
-    }
-    let breadcrumbFound = false;
-    dfs(tree, []);
-    // Cleanup synthetic "root" for display
-    return path.filter((x) => x !== "root");
-  }, [tree, focusName]);
-
-  // Click handlers
-  const canDrillDown = (n: HierarchyNode<TreeNode>) =>
-    n.data.children && n.data.children.length > 0;
+  const overlaySide = Math.floor(Math.min(vw, vh) * 0.8);
+  const overlayJob = useLayoutJob(
+    "pack",
+    useMemo<LayoutInput<"pack"> | null>(
+      () =>
+        // limit to 3 levels: focus (0), children (1), grandchildren (2);
+        // grandchildren are sized by their rolled-up measure
+        overlayNode && {
+          tree: overlayNode,
+          width: overlaySide,
+          height: overlaySide,
+          padding: Math.max(3, padding - 2),
+          sizes: measures.sizes,
+          depth: 2,
+        },
+      [overlayNode, overlaySide, padding, measures.sizes]
+    )
+  );
+  const overlayPack = useMemo<HierarchyCircularNode<TreeNode> | null>(
+    () =>
+      overlayNode &&
+      packFromPositions(
+        overlayNode,
+        overlaySide,
+        overlaySide,
+        overlayJob.result,
+        2
+      ),
+    [overlayNode, overlaySide, overlayJob.result]
+  );
 
-  const handleBubbleClick = (n: HierarchyNode<TreeNode>) => {
-    // Clicking a child bubble opens overlay with Parent, Children and Grandchildren
-    if (canDrillDown(n)) {
-      setOverlayFocusName(n.data.name);
-      setIsOverlayOpen(true);
+  // Keyboard: roving focus + ARIA tree over the visible bubbles
+  const mainBubbles = useMemo(
+    () => packRoot.descendants().filter((d) => d.depth === 1),
+    [packRoot]
+  );
+  const mainTree = useRovingTree(
+    useMemo(
+      () =>
+        mainBubbles.map((d) => ({
+          id: d.data.id,
+          parentId: null,
+          level: d.data.level ?? breadcrumb.length + 1,
+          branch: canDrillDown(d.data),
+        })),
+      [mainBubbles, breadcrumb.length, canDrillDown]
+    ),
+    {
+      onEnter: (id) => {
+        const d = mainBubbles.find((b) => b.data.id === id);
+        if (d) nav.openOverlay(d.data);
+      },
+      onBack: () => {
+        nav.drillUp();
+        return focusNode.id; // the bubble we came from
+      },
+      // back from the overlay, or to the next level up
+      focusKey: isOverlayOpen ? null : focusNode.id,
     }
-  };
-
-  const overlayDrillDown = (n: HierarchyNode<TreeNode>) => {
-    if (n.data.children && n.data.children.length > 0) {
-      setOverlayFocusName(n.data.name);
+  );
+  const overlayBubbles = useMemo(
+    () => overlayPack?.descendants().filter((d) => d.depth <= 2) ?? [],
+    [overlayPack]
+  );
+  const overlayTree = useRovingTree(
+    useMemo(
+      () =>
+        overlayBubbles.map((d) => ({
+          id: d.data.id,
+          parentId: d.parent?.data.id ?? null,
+          level: d.data.level ?? d.depth + 1,
+          branch: canDrillDown(d.data),
+        })),
+      [overlayBubbles, canDrillDown]
+    ),
+    {
+      onEnter: (id) => {
+        const d = overlayBubbles.find((b) => b.data.id === id);
+        if (d) nav.overlayDrillDown(d.data);
+      },
+      onBack: () => {
+        const from = overlayFocusId;
+        nav.overlayDrillUp();
+        return from ?? undefined;
+      },
+      onEscape: nav.closeOverlay,
+      focusKey: overlayFocusId,
     }
-  };
-
-  const overlayDrillUp = () => {
-    if (!overlayFocusName) return;
-    const p = findParentName(tree, overlayFocusName);
-    if (p) setOverlayFocusName(p);
-    else setIsOverlayOpen(false); // if somehow at the top, close
-  };
+  );
 
   return (
     <div
@@ -302,95 +279,86 @@ export default function CircularPackingOverlay({
           zIndex: 2,
         }}
       >
-        <strong style={{ opacity: 0.85 }}>Path:</strong>
-        {breadcrumb.length === 0 ? (
-          <span>root</span>
-        ) : (
-          <>
-            <button
-              onClick={overlayDrillUp}
-              title="Drill up"
-              style={{
-                border: "1px solid #3a4157",
-                background: "rgba(255,255,255,0.08)",
-                color: "inherit",
-                borderRadius: 8,
-                padding: "2px 8px",
-                cursor: "pointer",
-              }}
-            >
-              ← Up
-            </button>
-            <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
-              {breadcrumb.map((b, i) => (
-                <span
-                  key={b}
-                  style={{ opacity: i === breadcrumb.length - 1 ? 1 : 0.7 }}
-                >
-                  {b}
-                  {i < breadcrumb.length - 1 && " / "}
-                </span>
-              ))}
-            </div>
-          </>
-        )}
+        <HierarchyBreadcrumb breadcrumb={breadcrumb} onUp={nav.drillUp} />
+        <MeasureControls
+          metrics={measures.metrics}
+          sizeBy={measures.sizeBy}
+          aggregation={measures.aggregation}
+          onSizeByChange={measures.setSizeBy}
+          onAggregationChange={measures.setAggregation}
+          style={{ marginLeft: "auto" }}
+        />
       </div>
 
+      <HierarchyIssuesPanel issues={issues} />
+      <HierarchyLoadStatus remote={remote} hasData={!!remote.items} />
+      <LayoutProgress
+        progress={packJob.progress ?? overlayJob.progress}
+        error={packJob.error ?? overlayJob.error}
+      />
+
       {/* Main SVG */}
       <svg width={vw} height={vh} style={{ display: "block" }}>
-        <g>
-          {packRoot
-            .descendants()
-            .filter(
-              (d) => d.depth === 1
-            ) /* show only immediate children bubbles */
-            .map((d, i) => {
-              const fillKey =
-                d.data.source ??
-                (d.parent?.data.name || "") +
-                  (d.data.level ?? "") +
-                  (d.data.name ?? "");
-
-              return (
-                <g
-                  key={`${d.data.name}-${i}`}
+        <g role="tree" aria-label={focusNode.name}>
+          {mainBubbles.map((d) => {
+            const fillKey =
+              d.data.source ??
+              (d.parent?.data.name || "") +
+                (d.data.level ?? "") +
+                (d.data.name ?? "");
+
+            return (
+              <g
+                key={d.data.id}
+                style={{
+                  transform: `translate(${d.x}px, ${d.y}px)`,
+                  transition: "transform 320ms cubic-bezier(.2,.8,.2,1)",
+                  cursor: nav.canDrillDown(d.data) ? "pointer" : "default",
+                }}
+                {...nav.getNodeProps(d.data, "main", () =>
+                  nav.openOverlay(d.data)
+                )}
+                {...mainTree.getItemProps(d.data.id)}
+                aria-label={d.data.name}
+              >
+                <circle
+                  r={d.r}
+                  fill={String(color(fillKey))}
+                  fillOpacity={0.85}
+                  stroke="rgba(255,255,255,0.15)"
+                  strokeWidth={1.5}
+                />
+                <text
+                  textAnchor="middle"
+                  dy="0.35em"
                   style={{
-                    transform: `translate(${d.x}px, ${d.y}px)`,
-                    transition: "transform 320ms cubic-bezier(.2,.8,.2,1)",
-                    cursor: canDrillDown(d) ? "pointer" : "default",
+                    pointerEvents: "none",
+                    fill: "#fff",
+                    fontSize: Math.max(10, Math.min(18, d.r / 3)),
+                    fontWeight: 600,
+                    filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
                   }}
-                  onClick={() => handleBubbleClick(d)}
                 >
-                  <circle
-                    r={d.r}
-                    fill={String(color(fillKey))}
-                    fillOpacity={0.85}
-                    stroke="rgba(255,255,255,0.15)"
-                    strokeWidth={1.5}
-                  />
-                  <text
-                    textAnchor="middle"
-                    dy="0.35em"
-                    style={{
-                      pointerEvents: "none",
-                      fill: "#fff",
-                      fontSize: Math.max(10, Math.min(18, d.r / 3)),
-                      fontWeight: 600,
-                      filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
-                    }}
-                  >
-                    {d.data.name}
-                  </text>
-                </g>
-              );
-            })}
+                  {d.data.name}
+                </text>
+                <title>
+                  {`${d.data.name}: ${measureLabel(measures.sizeBy, measures.aggregation)} = ${formatMeasure(measures.sizes.get(d.data.id) ?? 0)}`}
+                </title>
+                <LazyBubbleBadge
+                  r={d.r}
+                  pending={lazy.pending.has(d.data.id)}
+                  error={lazy.errors.get(d.data.id)}
+                />
+              </g>
+            );
+          })}
         </g>
       </svg>
 
       {/* Overlay / Modal */}
       {isOverlayOpen && overlayNode && overlayPack && (
         <div
-          onClick={() => setIsOverlayOpen(false)}
+          onClick={nav.closeOverlay}
           style={{
             position: "absolute",
             inset: 0,
@@ -424,7 +392,7 @@ export default function CircularPackingOverlay({
             >
               <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
                 <button
-                  onClick={overlayDrillUp}
+                  onClick={nav.overlayDrillUp}
                   title="Drill up"
                   style={{
                     border: "1px solid #3a4157",
@@ -439,11 +407,12 @@ export default function CircularPackingOverlay({
                 </button>
                 <strong style={{ fontSize: 16 }}>{overlayNode.name}</strong>
                 <span style={{ opacity: 0.7 }}>
-                  (click child to drill; click outside to close)
+                  (click or Enter to drill; Backspace up, Esc or click outside
+                  to close)
                 </span>
               </div>
               <button
-                onClick={() => setIsOverlayOpen(false)}
+                onClick={nav.closeOverlay}
                 style={{
                   border: "1px solid #3a4157",
                   background: "rgba(255,255,255,0.08)",
@@ -475,65 +444,70 @@ export default function CircularPackingOverlay({
                 style={{ display: "block" }}
               >
                 <g
+                  role="tree"
+                  aria-label={overlayNode.name}
                   style={{
                     transform: `translate(${overlayPack.r + 12}px, ${overlayPack.r + 12}px)`,
                   }}
                 >
-                  {overlayPack
-                    .descendants()
-                    // show parent (0), children (1), grandchildren (2)
-                    .filter((d) => d.depth <= 2)
-                    .map((d, i) => {
-                      const fillKey =
-                        d.data.source ??
-                        `${d.parent?.data.name ?? ""}-${d.data.level ?? ""}-${d.data.name ?? ""}`;
-
-                      // Animate position with CSS transform (smooth on drill)
-                      const posStyle: React.CSSProperties = {
-                        transition: "transform 320ms cubic-bezier(.2,.8,.2,1)",
-                        transform: `translate(${d.x - overlayPack.x}px, ${d.y - overlayPack.y}px)`,
-                        cursor:
-                          d.data.children && d.data.children.length > 0
-                            ? "pointer"
-                            : "default",
-                      };
-
-                      return (
-                        <g
-                          key={`${d.data.name}-ov-${i}`}
-                          style={posStyle}
-                          onClick={() => overlayDrillDown(d)}
+                  {/* parent (0), children (1), grandchildren (2) */}
+                  {overlayBubbles.map((d) => {
+                    const fillKey =
+                      d.data.source ??
+                      `${d.parent?.data.name ?? ""}-${d.data.level ?? ""}-${d.data.name ?? ""}`;
+
+                    // Animate position with CSS transform (smooth on drill)
+                    const posStyle: React.CSSProperties = {
+                      transition: "transform 320ms cubic-bezier(.2,.8,.2,1)",
+                      transform: `translate(${d.x - overlayPack.x}px, ${d.y - overlayPack.y}px)`,
+                      cursor: nav.canDrillDown(d.data) ? "pointer" : "default",
+                    };
+
+                    return (
+                      <g
+                        key={`${d.data.id}-ov`}
+                        style={posStyle}
+                        {...nav.getNodeProps(d.data, "overlay", () =>
+                          nav.overlayDrillDown(d.data)
+                        )}
+                        {...overlayTree.getItemProps(d.data.id)}
+                        aria-label={d.data.name}
+                      >
+                        <circle
+                          r={d.r}
+                          fill={String(color(fillKey))}
+                          fillOpacity={
+                            d.depth === 0 ? 0.75 : d.depth === 1 ? 0.88 : 0.95
+                          }
+                          stroke="rgba(255,255,255,0.2)"
+                          strokeWidth={1.25}
+                        />
+                        <text
+                          textAnchor="middle"
+                          dy="0.35em"
+                          style={{
+                            pointerEvents: "none",
+                            fill: "#fff",
+                            fontSize:
+                              d.depth === 0
+                                ? Math.max(12, Math.min(22, d.r / 2.4))
+                                : d.depth === 1
+                                  ? Math.max(11, Math.min(18, d.r / 2.8))
+                                  : Math.max(10, Math.min(16, d.r / 3.2)),
+                            fontWeight: 600,
+                            filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
+                          }}
                         >
-                          <circle
-                            r={d.r}
-                            fill={String(color(fillKey))}
-                            fillOpacity={
-                              d.depth === 0 ? 0.75 : d.depth === 1 ? 0.88 : 0.95
-                            }
-                            stroke="rgba(255,255,255,0.2)"
-                            strokeWidth={1.25}
-                          />
-                          <text
-                            textAnchor="middle"
-                            dy="0.35em"
-                            style={{
-                              pointerEvents: "none",
-                              fill: "#fff",
-                              fontSize:
-                                d.depth === 0
-                                  ? Math.max(12, Math.min(22, d.r / 2.4))
-                                  : d.depth === 1
-                                    ? Math.max(11, Math.min(18, d.r / 2.8))
-                                    : Math.max(10, Math.min(16, d.r / 3.2)),
-                              fontWeight: 600,
-                              filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
-                            }}
-                          >
-                            {d.data.name}
-                          </text>
-                        </g>
-                      );
-                    })}
+                          {d.data.name}
+                        </text>
+                        <LazyBubbleBadge
+                          r={d.r}
+                          pending={lazy.pending.has(d.data.id)}
+                          error={lazy.errors.get(d.data.id)}
+                        />
+                      </g>
+                    );
+                  })}
                 </g>
               </svg>
             </div>
@@ -554,6 +528,7 @@ export default function CircularPackingOverlay({
         svg g, svg circle {
           transition: transform 220ms ease, r 220ms ease, opacity 200ms ease;
         }
+        ${TREEITEM_FOCUS_CSS}
       `}</style>
     </div>
   );
@@ -1,9 +1,14 @@
 "use client";
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import Graph from "graphology";
 import circular from "graphology-layout/circular";
-import forceAtlas2 from "graphology-layout-forceatlas2";
 import {
   SigmaContainer,
   ControlsContainer,
@@ -13,6 +18,7 @@ import {
   useRegisterEvents,
   useSetSettings,
   useCamera,
+  useSigma,
 } from "@react-sigma/core";
 import "@react-sigma/core/lib/style.css";
 import {
@@ -21,6 +27,9 @@ import {
 } from "@react-sigma/graph-search";
 import "@react-sigma/graph-search/lib/style.css";
 import type { GraphSearchOption, OptionItem } from "@react-sigma/graph-search";
+import type { CameraPosition } from "@/lib/useUrlState";
+import { useLayoutJob } from "@/lib/useLayoutJob";
+import LayoutProgress from "@/components/LayoutProgress";
 
 type DatasetNode = {
   key: string;
@@ -86,10 +95,15 @@ function GraphEvents({
 function reducersForFocus(
   graph: Graph,
   focusNode: string | null,
+  hiddenClusters: string[] = [],
   dim = "#d0d3d8"
 ) {
+  const hidden = new Set(hiddenClusters);
+  const isHidden = (node: string) =>
+    hidden.has(graph.getNodeAttribute(node, "cluster"));
   return {
     nodeReducer: (node: string, attrs: any) => {
+      if (hidden.has(attrs.cluster)) return { ...attrs, hidden: true };
       if (!focusNode) return attrs;
       const nbrs = new Set(graph.neighbors(focusNode));
       const on = node === focusNode || nbrs.has(node);
@@ -101,14 +115,17 @@ function reducersForFocus(
       };
     },
     edgeReducer: (edge: string, attrs: any) => {
-      if (!focusNode) return attrs;
       const [s, t] = graph.extremities(edge);
+      if (isHidden(s) || isHidden(t)) return { ...attrs, hidden: true };
+      if (!focusNode) return attrs;
       const on = s === focusNode || t === focusNode;
       return { ...attrs, hidden: !on, color: on ? attrs.color : dim };
     },
   };
 }
 
+const FA2_SETTINGS = { gravity: 1, scalingRatio: 12 };
+
 function buildGraphFromDataset(ds: Dataset) {
   // keep undirected + non-multi:
   const g = new Graph({ type: "undirected" });
@@ -135,8 +152,8 @@ function buildGraphFromDataset(ds: Dataset) {
     g.addUndirectedEdgeWithKey(`e:${i++}:${u}`, a, b, { size: 1 });
   }
 
+  // starting positions; ForceAtlas2 refines them via useLayoutJob
   circular.assign(g, { scale: 1 });
-  forceAtlas2.assign(g, { iterations: 250, settings: { gravity: 1, scalingRatio: 12 } });
   return g;
 }
 
@@ -181,27 +198,146 @@ function ControlsWithCamera({
   );
 }
 
-function FocusReducers({ graph, focus }: { graph: Graph; focus: string | null }) {
+function FocusReducers({
+  graph,
+  focus,
+  hiddenClusters,
+}: {
+  graph: Graph;
+  focus: string | null;
+  hiddenClusters: string[];
+}) {
   const setSettings = useSetSettings(); 
   useEffect(() => {
     
-    setSettings(reducersForFocus(graph, focus));
-  }, [graph, focus, setSettings]);
+    setSettings(reducersForFocus(graph, focus, hiddenClusters));
+  }, [graph, focus, hiddenClusters, setSettings]);
   return null;
 }
 
-export default function FinanceSigmaGraph({
-  datasetUrl = "/finance-dataset.json",
+/**
+ * Two-way camera binding: applies `camera` when it changes from outside
+ * (initial load, back/forward) and reports user moves once they settle.
+ */
+function CameraSync({
+  camera,
+  onCameraChange,
 }: {
-  datasetUrl?: string;
+  camera?: CameraPosition | null;
+  onCameraChange?: (c: CameraPosition) => void;
 }) {
+  const sigma = useSigma();
+  const reported = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!camera) return;
+    const key = `${camera.x},${camera.y},${camera.ratio}`;
+    if (key === reported.current) return; // our own update echoing back
+    reported.current = key;
+    sigma.getCamera().setState(camera);
+  }, [sigma, camera]);
+
+  useEffect(() => {
+    if (!onCameraChange) return;
+    const cam = sigma.getCamera();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onUpdated = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const { x, y, ratio } = cam.getState();
+        const c = {
+          x: +x.toFixed(4),
+          y: +y.toFixed(4),
+          ratio: +ratio.toFixed(4),
+        };
+        reported.current = `${c.x},${c.y},${c.ratio}`;
+        onCameraChange(c);
+      }, 300);
+    };
+    cam.on("updated", onUpdated);
+    return () => {
+      clearTimeout(timer);
+      cam.off("updated", onUpdated);
+    };
+  }, [sigma, onCameraChange]);
+  return null;
+}
+
+type FinanceSigmaGraphProps = {
+  datasetUrl?: string;
+  // Controlled view state (omit for internal state), e.g. from useGraphUrlState
+  focus?: string | null;
+  onFocusChange?: (node: string | null) => void;
+  camera?: CameraPosition | null;
+  onCameraChange?: (camera: CameraPosition) => void;
+  hiddenClusters?: string[];
+  onHiddenClustersChange?: (keys: string[]) => void;
+};
+
+export default function FinanceSigmaGraph({
+  datasetUrl = "/finance-dataset.json",
+  focus: focusProp,
+  onFocusChange,
+  camera,
+  onCameraChange,
+  hiddenClusters: hiddenProp,
+  onHiddenClustersChange,
+}: FinanceSigmaGraphProps) {
   const { data, err } = useDataset(datasetUrl);
-  const [focus, setFocus] = useState<string | null>(null);
+  const [innerFocus, setInnerFocus] = useState<string | null>(null);
+  const [innerHidden, setInnerHidden] = useState<string[]>([]);
+  const hiddenClusters = hiddenProp ?? innerHidden;
+
+  const setFocus = useCallback(
+    (id: string | null) => {
+      setInnerFocus(id);
+      onFocusChange?.(id);
+    },
+    [onFocusChange]
+  );
+  const toggleCluster = (key: string) => {
+    const next = hiddenClusters.includes(key)
+      ? hiddenClusters.filter((k) => k !== key)
+      : [...hiddenClusters, key];
+    setInnerHidden(next);
+    onHiddenClustersChange?.(next);
+  };
 
   const graph = useMemo(
     () => (data ? buildGraphFromDataset(data) : null),
     [data]
   );
+  // ForceAtlas2: 250 iterations on load, 140 more per "Re-run Layout";
+  // large graphs run in the layout worker while the current layout stays up
+  const [layoutRuns, setLayoutRuns] = useState(0);
+  const fa2 = useLayoutJob(
+    "forceAtlas2",
+    useMemo(
+      () =>
+        graph
+          ? {
+              graph: graph.export(),
+              iterations: layoutRuns ? 140 : 250,
+              settings: FA2_SETTINGS,
+            }
+          : null,
+      [graph, layoutRuns]
+    )
+  );
+  useEffect(() => {
+    if (!graph || !fa2.result || fa2.stale) return;
+    const positions = fa2.result;
+    graph.updateEachNodeAttributes(
+      (key, attrs) => ({ ...attrs, ...positions[key] }),
+      {
+        attributes: ["x", "y"],
+      }
+    );
+  }, [graph, fa2.result, fa2.stale]);
+
+  // A focus restored from a URL may name a node this dataset lacks
+  const requested = focusProp !== undefined ? focusProp : innerFocus;
+  const focus = requested && graph?.hasNode(requested) ? requested : null;
 
   if (err)
     return (
@@ -209,17 +345,22 @@ export default function FinanceSigmaGraph({
     );
   if (!data || !graph) return <div>Loading graph…</div>;
 
-  const reLayout = () => {
-    forceAtlas2.assign(graph, {
-      iterations: 140,
-      settings: { gravity: 1, scalingRatio: 12 },
-    });
-  };
+  const reLayout = () => setLayoutRuns((n) => n + 1);
 
   return (
     <div
-      style={{ display: "grid", gridTemplateColumns: "1fr 320px", height: 600 }}
+      style={{
+        display: "grid",
+        gridTemplateColumns: "1fr 320px",
+        height: 600,
+        position: "relative",
+      }}
     >
+      <LayoutProgress
+        progress={fa2.progress}
+        error={fa2.error}
+        style={{ top: 12 }}
+      />
       <SigmaContainer
         style={{ height: "100%", background: "#0b1220" }}
         settings={{
@@ -231,7 +372,12 @@ export default function FinanceSigmaGraph({
         <GraphSearchContextProvider>
           <LoadGraph graph={graph} />
           <GraphEvents onNodeClick={setFocus} />
-          <FocusReducers graph={graph} focus={focus} />
+          <FocusReducers
+            graph={graph}
+            focus={focus}
+            hiddenClusters={hiddenClusters}
+          />
+          <CameraSync camera={camera} onCameraChange={onCameraChange} />
           <ControlsWithCamera
             graph={graph}
             setFocus={setFocus}
@@ -250,7 +396,11 @@ export default function FinanceSigmaGraph({
 
         <hr style={{ margin: "16px 0", borderColor: "#2a3348" }} />
         <h4 style={{ margin: "8px 0" }}>Legend</h4>
-        <Legend clusters={data.clusters} />
+        <Legend
+          clusters={data.clusters}
+          hidden={hiddenClusters}
+          onToggle={toggleCluster}
+        />
       </aside>
     </div>
   );
@@ -291,16 +441,36 @@ function NodeInfo({ graph, node }: { graph: Graph; node: string }) {
 
 function Legend({
   clusters,
+  hidden,
+  onToggle,
 }: {
   clusters?: { key: string; color: string; clusterLabel?: string }[];
+  hidden: string[];
+  onToggle: (key: string) => void;
 }) {
   if (!clusters || clusters.length === 0) return null;
   return (
     <div style={{ display: "grid", gap: 6 }}>
       {clusters.map((c) => (
-        <div
+        <button
           key={c.key}
-          style={{ display: "flex", alignItems: "center", gap: 8 }}
+          type="button"
+          aria-pressed={!hidden.includes(c.key)}
+          onClick={() => onToggle(c.key)}
+          title={hidden.includes(c.key) ? "Show cluster" : "Hide cluster"}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            padding: 0,
+            border: "none",
+            background: "none",
+            color: "inherit",
+            font: "inherit",
+            textAlign: "left",
+            cursor: "pointer",
+            opacity: hidden.includes(c.key) ? 0.4 : 1,
+          }}
         >
           <span
             style={{
@@ -312,7 +482,7 @@ function Legend({
             }}
           />
           <span>{c.clusterLabel ?? c.key}</span>
-        </div>
+        </button>
       ))}
     </div>
   );
@@ -0,0 +1,58 @@
+"use client";
+
+import React from "react";
+import type { TreeNode } from "@/lib/hierarchy";
+
+/**
+ * "Path:" label, Up button and the drill path of a hierarchy view (see
+ * useHierarchyNavigation's `breadcrumb` / `drillUp`). The path is a live
+ * region, so screen readers announce each drill.
+ */
+export default function HierarchyBreadcrumb({
+  breadcrumb,
+  onUp,
+}: {
+  breadcrumb: TreeNode[];
+  onUp: () => void;
+}) {
+  return (
+    <>
+      <strong style={{ opacity: 0.85 }}>Path:</strong>
+      {breadcrumb.length > 0 && (
+        <button
+          onClick={onUp}
+          title="Drill up"
+          style={{
+            border: "1px solid #3a4157",
+            background: "rgba(255,255,255,0.08)",
+            color: "inherit",
+            borderRadius: 8,
+            padding: "2px 8px",
+            cursor: "pointer",
+          }}
+        >
+          ← Up
+        </button>
+      )}
+      <div
+        aria-live="polite"
+        aria-atomic="true"
+        style={{ display: "flex", gap: 6, flexWrap: "wrap" }}
+      >
+        {breadcrumb.length === 0 ? (
+          <span>root</span>
+        ) : (
+          breadcrumb.map((b, i) => (
+            <span
+              key={b.id}
+              style={{ opacity: i === breadcrumb.length - 1 ? 1 : 0.7 }}
+            >
+              {b.name}
+              {i < breadcrumb.length - 1 && " / "}
+            </span>
+          ))
+        )}
+      </div>
+    </>
+  );
+}
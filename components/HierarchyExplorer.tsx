@@ -0,0 +1,423 @@
+"use client";
+
+import React, { useLayoutEffect, useMemo, useRef, useState } from "react";
+import { easeCubicInOut } from "d3";
+import {
+  FlatItem,
+  TreeNode,
+  HierarchyIssue,
+  NestedItem,
+  nestFlatToTree,
+  flattenNested,
+} from "@/lib/hierarchy";
+import { useRemoteHierarchy } from "@/lib/useRemoteHierarchy";
+import {
+  HierarchyNavigationProps,
+  useHierarchyNavigation,
+} from "@/lib/useHierarchyNavigation";
+import { categoryColor, colorKeys } from "@/lib/hierarchyColors";
+import { Aggregation, formatMeasure, measureLabel } from "@/lib/measures";
+import { useMeasures } from "@/lib/useMeasures";
+import { useHierarchySearch } from "@/lib/useHierarchySearch";
+import { TREEMAP_HEADER, fitLabel } from "@/lib/partitionLayout";
+import {
+  ExplorerLayout,
+  NodeShape,
+  labelBox,
+  layoutShapes,
+  lerpOutline,
+  outlinePath,
+  shapeOutline,
+  shapePath,
+} from "@/lib/shapeMorph";
+import { TREEITEM_FOCUS_CSS, useRovingTree } from "@/lib/useRovingTree";
+import HierarchyBreadcrumb from "@/components/HierarchyBreadcrumb";
+import HierarchyIssuesPanel from "@/components/HierarchyIssuesPanel";
+import HierarchyLoadStatus from "@/components/HierarchyLoadStatus";
+import HierarchySearch, { SELECTED_STROKE } from "@/components/HierarchySearch";
+import MeasureControls from "@/components/MeasureControls";
+
+// ---------- Types ----------
+type HierarchyExplorerProps = HierarchyNavigationProps & {
+  data?: FlatItem[];
+  tree?: NestedItem | NestedItem[]; // pre-nested alternative to `data`
+  dataUrl?: string; // fetch rows (FlatItem[] or nested JSON) instead
+  refreshInterval?: number; // ms between background refetches of dataUrl
+  layout?: ExplorerLayout; // initial encoding (default "pack")
+  onLayoutChange?: (layout: ExplorerLayout) => void;
+  sizeBy?: string; // initial metric for node area: "value" or a measure name
+  aggregation?: Aggregation; // initial rollup shown for parent nodes
+  searchFields?: string[]; // node fields the search box matches (default name)
+  levels?: number; // generations below the focus (default 3)
+  bg?: string;
+};
+
+type Point = [number, number];
+
+/** What is on screen: exact shapes, or a morph `t` of the way through */
+type Painted = {
+  shapes: Map<string, NodeShape>;
+  morph: Morph | null;
+  t: number;
+};
+type Morph = { from: Map<string, Point[]>; to: Map<string, Point[]> };
+
+// ---------- Utilities ----------
+type AnyRef<T> = React.RefObject<T | null> | React.MutableRefObject<T | null>;
+function useResizeObserver<T extends HTMLElement>(
+  ref: AnyRef<T>
+): { w: number; h: number } {
+  const [size, setSize] = React.useState({ w: 0, h: 0 });
+  React.useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const obs = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        const { width, height } = entry.contentRect;
+        setSize({ w: width, h: height });
+      }
+    });
+    obs.observe(el);
+    return () => obs.disconnect();
+  }, [ref]);
+  return size;
+}
+
+const LAYOUTS: { value: ExplorerLayout; label: string }[] = [
+  { value: "pack", label: "Pack" },
+  { value: "treemap", label: "Treemap" },
+  { value: "icicle", label: "Icicle" },
+  { value: "sunburst", label: "Sunburst" },
+];
+
+const HEADER_H = 48; // breadcrumb bar
+const HINT_H = 28; // help line at the bottom
+const FONT_SIZE = 12;
+const MORPH_MS = 750;
+
+/** Outline of `id` as painted (mid-morph or exact), if it was on screen */
+function paintedOutline(p: Painted, id: string) {
+  if (p.morph?.to.has(id))
+    return lerpOutline(p.morph.from.get(id)!, p.morph.to.get(id)!, p.t);
+  const shape = p.shapes.get(id);
+  return shape && shapeOutline(shape);
+}
+
+/** A zero-size circle where `shape`'s label goes (nodes morphing in) */
+function seedOf(shape: NodeShape): NodeShape {
+  const { x, y } = labelBox(shape);
+  return { kind: "circle", cx: x, cy: y, r: 0 };
+}
+
+/**
+ * One hierarchy, four encodings (pack, treemap, icicle, sunburst) behind
+ * a toggle. Switching morphs every node from its old shape to its new one
+ * (drilling and resizing too), so a node can be followed across views;
+ * focus, search and selection live here and survive the switch.
+ * - the focus and `levels` generations below it are shown, sized by the
+ *   selected measure, colored by top-level branch like the other charts
+ * - click a branch to drill in; the root (icicle row / sunburst center),
+ *   the background or Up drill out
+ * - honours prefers-reduced-motion (switches without the morph)
+ */
+export default function HierarchyExplorer({
+  data,
+  tree: nested,
+  dataUrl,
+  refreshInterval,
+  layout: initialLayout = "pack",
+  onLayoutChange,
+  sizeBy,
+  aggregation,
+  searchFields,
+  levels = 3,
+  bg = "#0b1220",
+  ...navProps
+}: HierarchyExplorerProps) {
+  const remote = useRemoteHierarchy(dataUrl, { refreshInterval });
+  const { tree, issues } = useMemo(() => {
+    const issues: HierarchyIssue[] = [];
+    const items = dataUrl
+      ? (remote.items ?? [])
+      : nested
+        ? flattenNested(nested)
+        : (data ?? []);
+    return { tree: nestFlatToTree(items, issues), issues };
+  }, [data, nested, dataUrl, remote.items]);
+  const measures = useMeasures(tree, { sizeBy, aggregation });
+  const search = useHierarchySearch(tree, searchFields);
+  const nav = useHierarchyNavigation(tree, navProps);
+  const { focusNode, breadcrumb, canDrillDown } = nav;
+  const color = useMemo(categoryColor, []);
+  const topOf = useMemo(() => colorKeys(tree), [tree]);
+
+  const [layout, setLayout] = useState(initialLayout);
+  const switchTo = (next: ExplorerLayout) => {
+    setLayout(next);
+    onLayoutChange?.(next);
+  };
+
+  // container & responsive sizing
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { w, h } = useResizeObserver(containerRef);
+  const width = Math.max(320, w || 900);
+  const height = Math.max(240, (h || 600) - HEADER_H - HINT_H);
+
+  const placed = useMemo(
+    () =>
+      layoutShapes(focusNode, layout, width, height, {
+        sizes: measures.sizes,
+        depth: levels,
+        padding: layout === "pack" ? 3 : 1,
+      }),
+    [focusNode, layout, width, height, measures.sizes, levels]
+  );
+  const shapes = useMemo(
+    () => new Map(placed.map((p) => [p.node.data.id, p.shape])),
+    [placed]
+  );
+
+  // ---- morph: from what was painted to the new shapes ----
+  const [morph, setMorph] = useState<Morph | null>(null);
+  const [t, setT] = useState(1);
+  const painted = useRef<Painted | null>(null);
+  useLayoutEffect(() => {
+    const before = painted.current;
+    if (!before || matchMedia("(prefers-reduced-motion: reduce)").matches)
+      return setMorph(null);
+    const from = new Map<string, Point[]>();
+    const to = new Map<string, Point[]>();
+    shapes.forEach((shape, id) => {
+      to.set(id, shapeOutline(shape));
+      from.set(id, paintedOutline(before, id) ?? shapeOutline(seedOf(shape)));
+    });
+    setMorph({ from, to });
+    setT(0);
+    const start = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const p = Math.min(1, (now - start) / MORPH_MS);
+      setT(easeCubicInOut(p));
+      if (p < 1) frame = requestAnimationFrame(tick);
+      else setMorph(null);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [shapes]);
+  // (after the effect above, which needs the previous frame; nothing is
+  // recorded before the first measure, so the initial size doesn't morph)
+  useLayoutEffect(() => {
+    if (w > 0) painted.current = { shapes, morph, t };
+  });
+
+  const root = placed[0]?.node;
+  const rootShown = layout === "icicle" || layout === "sunburst";
+  const cells = useMemo(() => placed.slice(1), [placed]);
+
+  const drillUp = () => {
+    if (breadcrumb.length) nav.drillUp();
+  };
+
+  // keyboard: roving focus + ARIA tree over the nodes below the root
+  const treeNav = useRovingTree(
+    useMemo(
+      () =>
+        cells.map(({ node: d }) => ({
+          id: d.data.id,
+          parentId: d.depth > 1 ? d.parent!.data.id : null,
+          level: d.depth,
+          branch: canDrillDown(d.data),
+        })),
+      [cells, canDrillDown]
+    ),
+    {
+      onEnter: (id) => {
+        const d = cells.find((c) => c.node.data.id === id)?.node;
+        if (d && canDrillDown(d.data)) nav.drillDown(d.data);
+      },
+      onBack: () => {
+        if (!breadcrumb.length) return;
+        nav.drillUp();
+        return focusNode.id; // keep the node we drilled out of
+      },
+      focusKey: nav.focusId,
+    }
+  );
+
+  const renderNode = (d: TreeNode, shape: NodeShape, depth: number) => {
+    const id = d.id;
+    const isRoot = depth === 0;
+    const branch = canDrillDown(d);
+    const selected = search.selectedId === id;
+    const box = labelBox(
+      shape,
+      layout === "treemap" && depth < levels && d.children?.length
+        ? TREEMAP_HEADER
+        : undefined
+    );
+    const label = !morph && fitLabel(d.name, box.width, FONT_SIZE);
+    return (
+      <g
+        key={id}
+        style={{
+          opacity: search.isDimmed(id) ? 0.25 : 1,
+          cursor: (isRoot ? breadcrumb.length > 0 : branch)
+            ? "pointer"
+            : "default",
+        }}
+        {...nav.getNodeProps(d, "main", (e) => {
+          e.stopPropagation();
+          if (isRoot) drillUp();
+          else if (branch) nav.drillDown(d);
+        })}
+        {...(isRoot ? {} : treeNav.getItemProps(id))}
+        aria-label={d.name}
+      >
+        <path
+          d={
+            morph
+              ? outlinePath(paintedOutline({ shapes, morph, t }, id)!)
+              : shapePath(shape)
+          }
+          fillRule="evenodd"
+          fill={String(color(topOf.get(id) ?? "root"))}
+          fillOpacity={
+            isRoot ? (rootShown ? 0.35 : 0) : d.children ? 0.78 : 0.9
+          }
+          stroke={
+            selected
+              ? SELECTED_STROKE
+              : isRoot && !rootShown
+                ? "none"
+                : "rgba(255,255,255,0.18)"
+          }
+          strokeWidth={selected ? 3 : 1.2}
+        />
+        {label && (
+          <text
+            x={box.x}
+            y={box.y}
+            textAnchor="middle"
+            dy="0.35em"
+            style={{
+              pointerEvents: "none",
+              fill: "#fff",
+              fontSize: FONT_SIZE,
+              fontWeight: 600,
+              filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
+            }}
+          >
+            {label}
+          </text>
+        )}
+        <title>
+          {`${d.name}: ${measureLabel(measures.sizeBy, measures.aggregation)} = ${formatMeasure(measures.sizes.get(id) ?? 0)}`}
+        </title>
+      </g>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        width: "100%",
+        height: "100%",
+        background: bg,
+        color: "#e3e7ef",
+        position: "relative",
+        overflow: "hidden",
+        borderRadius: 12,
+      }}
+    >
+      {/* Header / Breadcrumb */}
+      <div
+        style={{
+          position: "absolute",
+          inset: "0 0 auto 0",
+          padding: "10px 14px",
+          display: "flex",
+          alignItems: "center",
+          gap: 8,
+          zIndex: 2,
+        }}
+      >
+        <HierarchyBreadcrumb breadcrumb={breadcrumb} onUp={drillUp} />
+        <div
+          role="group"
+          aria-label="Layout"
+          style={{ display: "flex", gap: 4, marginLeft: "auto" }}
+        >
+          {LAYOUTS.map((l) => (
+            <button
+              key={l.value}
+              onClick={() => switchTo(l.value)}
+              aria-pressed={layout === l.value}
+              style={{
+                border: "1px solid #3a4157",
+                background:
+                  layout === l.value
+                    ? "rgba(255,255,255,0.22)"
+                    : "rgba(255,255,255,0.08)",
+                color: "inherit",
+                borderRadius: 8,
+                padding: "2px 8px",
+                cursor: "pointer",
+              }}
+            >
+              {l.label}
+            </button>
+          ))}
+        </div>
+        <HierarchySearch search={search} onPick={(r) => nav.reveal(r.node)} />
+        <MeasureControls
+          metrics={measures.metrics}
+          sizeBy={measures.sizeBy}
+          aggregation={measures.aggregation}
+          onSizeByChange={measures.setSizeBy}
+          onAggregationChange={measures.setAggregation}
+        />
+      </div>
+
+      <HierarchyIssuesPanel issues={issues} />
+      <HierarchyLoadStatus remote={remote} hasData={!!remote.items} />
+
+      <svg
+        width={width}
+        height={height}
+        style={{ display: "block", marginTop: HEADER_H }}
+      >
+        {/* background: drill out */}
+        <rect
+          x={0}
+          y={0}
+          width={width}
+          height={height}
+          fill="transparent"
+          onClick={drillUp}
+        />
+        {root && renderNode(root.data, placed[0].shape, 0)}
+        <g role="tree" aria-label={focusNode.name}>
+          {cells.map(({ node, shape }) =>
+            renderNode(node.data, shape, node.depth)
+          )}
+        </g>
+      </svg>
+
+      {/* small help hint */}
+      <div
+        style={{
+          position: "absolute",
+          left: 12,
+          bottom: 8,
+          opacity: 0.75,
+          fontSize: 12,
+        }}
+      >
+        Switch layouts to follow the same nodes across views. Click to drill in;
+        Up (or the background) goes back. Keyboard: arrows move, Enter drills
+        in, Backspace goes up.
+      </div>
+
+      <style>{TREEITEM_FOCUS_CSS}</style>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import type { HierarchyIssue, HierarchyIssueKind } from "@/lib/hierarchy";
+
+const kindLabel: Record<HierarchyIssueKind, string> = {
+  "missing-parent": "Missing parent",
+  "parent-cycle": "Parent cycle",
+  "duplicate-name": "Duplicate name",
+  "level-mismatch": "Level mismatch",
+  "invalid-value": "Invalid value",
+  "invalid-row": "Invalid row",
+};
+
+/**
+ * Dismissible list of data problems, pinned to the top-right of a chart.
+ * Re-opens when the issues change (not on every re-nest of the same data,
+ * e.g. polling or lazy loads).
+ */
+export default function HierarchyIssuesPanel({
+  issues,
+}: {
+  issues: HierarchyIssue[];
+}) {
+  const [dismissed, setDismissed] = useState(false);
+  const signature = issues
+    .map((i) => `${i.kind}:${i.row}:${i.message}`)
+    .join("\n");
+  useEffect(() => setDismissed(false), [signature]);
+
+  if (dismissed || issues.length === 0) return null;
+
+  return (
+    <aside
+      role="status"
+      style={{
+        position: "absolute",
+        top: 48,
+        right: 12,
+        width: "min(320px, 45%)",
+        maxHeight: "45%",
+        overflow: "auto",
+        background: "rgba(14,21,41,0.94)",
+        border: "1px solid #6b4f1d",
+        borderRadius: 10,
+        padding: "8px 10px",
+        fontSize: 12,
+        color: "#e3e7ef",
+        boxShadow: "0 4px 16px rgba(0,0,0,0.35)",
+        zIndex: 3,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "space-between",
+          marginBottom: 6,
+        }}
+      >
+        <strong style={{ color: "#f5c26b" }}>
+          {issues.length} data issue{issues.length === 1 ? "" : "s"}
+        </strong>
+        <button
+          onClick={() => setDismissed(true)}
+          title="Dismiss"
+          style={{
+            border: "1px solid #3a4157",
+            background: "rgba(255,255,255,0.08)",
+            color: "inherit",
+            borderRadius: 6,
+            padding: "0 6px",
+            cursor: "pointer",
+          }}
+        >
+          ×
+        </button>
+      </div>
+      <ul style={{ margin: 0, paddingLeft: 16, display: "grid", gap: 4 }}>
+        {issues.map((issue, i) => (
+          <li key={`${issue.row}-${issue.kind}-${i}`}>
+            <span style={{ opacity: 0.7 }}>
+              {kindLabel[issue.kind]} · row {issue.row + 1}:
+            </span>{" "}
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import React from "react";
+import type { RemoteHierarchy } from "@/lib/useRemoteHierarchy";
+
+/**
+ * Loading / error state for charts fed by `dataUrl`.
+ * - first load: centered "Loading…"
+ * - error: message + Retry (stale data, if any, stays underneath)
+ * - background refresh: small corner badge
+ */
+export default function HierarchyLoadStatus({
+  remote,
+  hasData,
+}: {
+  remote: RemoteHierarchy;
+  hasData: boolean;
+}) {
+  if (remote.error) {
+    return (
+      <div style={{ ...centered, gap: 10 }}>
+        <span style={{ color: "#f87171" }}>
+          Failed to load hierarchy: {remote.error}
+        </span>
+        <button onClick={remote.retry} style={btn}>
+          Retry
+        </button>
+      </div>
+    );
+  }
+  if (!remote.loading) return null;
+  if (!hasData) return <div style={centered}>Loading hierarchy…</div>;
+  return (
+    <div
+      style={{
+        position: "absolute",
+        right: 12,
+        bottom: 10,
+        fontSize: 12,
+        opacity: 0.75,
+        zIndex: 3,
+      }}
+    >
+      Refreshing…
+    </div>
+  );
+}
+
+const centered: React.CSSProperties = {
+  position: "absolute",
+  inset: 0,
+  display: "flex",
+  alignItems: "center",
+  justifyContent: "center",
+  background: "rgba(8,12,24,0.6)",
+  zIndex: 4,
+};
+
+const btn: React.CSSProperties = {
+  border: "1px solid #3a4157",
+  background: "rgba(255,255,255,0.08)",
+  color: "inherit",
+  borderRadius: 8,
+  padding: "4px 10px",
+  cursor: "pointer",
+};
@@ -0,0 +1,126 @@
+"use client";
+
+import React, { useState } from "react";
+import type { HierarchySearchResult } from "@/lib/search";
+import type { HierarchySearch as SearchState } from "@/lib/useHierarchySearch";
+
+const MAX_RESULTS = 8;
+
+/** Outline of the bubble picked from the results */
+export const SELECTED_STROKE = "#fde68a";
+
+/**
+ * Search box with a result list (name + path). Arrow keys move through
+ * the results, Enter picks, Escape clears the query.
+ */
+export default function HierarchySearch({
+  search,
+  onPick,
+  style,
+}: {
+  search: SearchState;
+  onPick: (result: HierarchySearchResult) => void;
+  style?: React.CSSProperties;
+}) {
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+  const shown = search.results.slice(0, MAX_RESULTS);
+
+  const pick = (r: HierarchySearchResult) => {
+    search.setSelectedId(r.node.id);
+    setOpen(false);
+    onPick(r);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (i + step + shown.length) % Math.max(1, shown.length));
+      setOpen(true);
+    } else if (e.key === "Enter" && shown[active]) {
+      pick(shown[active]);
+    } else if (e.key === "Escape") {
+      search.setQuery("");
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div style={{ position: "relative", ...style }}>
+      <input
+        type="search"
+        value={search.query}
+        placeholder="Search…"
+        onChange={(e) => {
+          search.setQuery(e.target.value);
+          setActive(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        style={{
+          width: 200,
+          border: "1px solid #3a4157",
+          background: "#0e1529",
+          color: "inherit",
+          borderRadius: 8,
+          padding: "3px 8px",
+        }}
+      />
+      {open && search.query.trim() !== "" && (
+        <ul
+          style={{
+            position: "absolute",
+            top: "calc(100% + 4px)",
+            left: 0,
+            minWidth: 260,
+            maxWidth: 360,
+            margin: 0,
+            padding: 4,
+            listStyle: "none",
+            background: "#0e1529",
+            border: "1px solid #2b3350",
+            borderRadius: 10,
+            boxShadow: "0 8px 24px rgba(0,0,0,0.35)",
+            zIndex: 6,
+            fontSize: 13,
+          }}
+        >
+          {shown.length === 0 && (
+            <li style={{ padding: "4px 8px", opacity: 0.7 }}>No matches</li>
+          )}
+          {shown.map((r, i) => (
+            <li
+              key={r.node.id}
+              // mousedown so the pick happens before the input blurs
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(r);
+              }}
+              onMouseEnter={() => setActive(i)}
+              style={{
+                padding: "4px 8px",
+                borderRadius: 6,
+                cursor: "pointer",
+                background:
+                  i === active ? "rgba(255,255,255,0.08)" : "transparent",
+              }}
+            >
+              <div style={{ fontWeight: 600 }}>{r.node.name}</div>
+              {r.path.length > 1 && (
+                <div style={{ opacity: 0.6, fontSize: 12 }}>
+                  {r.path
+                    .slice(0, -1)
+                    .map((n) => n.name)
+                    .join(" / ")}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import PartitionChart, {
+  PartitionChartProps,
+} from "@/components/PartitionChart";
+
+/**
+ * Icicle: one row per generation, root on top, width ∝ size; shows depth
+ * and proportions at once (see PartitionChart for the props).
+ */
+export default function Icicle(props: Omit<PartitionChartProps, "kind">) {
+  return <PartitionChart {...props} kind="icicle" />;
+}
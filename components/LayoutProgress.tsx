@@ -0,0 +1,75 @@
+"use client";
+
+import React from "react";
+
+const SLIDE_CSS = `
+  @keyframes layout-progress-slide {
+    from { transform: translateX(-100%); }
+    to { transform: translateX(250%); }
+  }
+`;
+
+/**
+ * Corner badge while a layout runs in the worker (see useLayoutJob);
+ * the previous layout stays interactive underneath. Until the job reports
+ * progress the bar is indeterminate. A failed job shows its error instead.
+ * Sits top-left, clear of HierarchyIssuesPanel on the right.
+ */
+export default function LayoutProgress({
+  progress,
+  error,
+  style,
+}: {
+  progress: number | null;
+  error?: string | null; // from a failed job; shown while no job runs
+  style?: React.CSSProperties; // placement override
+}) {
+  if (progress === null) {
+    if (!error) return null;
+    return (
+      <div role="alert" style={{ ...badge, color: "#f87171", ...style }}>
+        Layout failed: {error}
+      </div>
+    );
+  }
+  const pct = Math.round(progress * 100);
+  const indeterminate = progress === 0;
+  return (
+    <div role="status" style={{ ...badge, opacity: 0.85, ...style }}>
+      Laying out…
+      <div
+        style={{
+          width: 80,
+          height: 4,
+          borderRadius: 2,
+          background: "rgba(255,255,255,0.15)",
+          overflow: "hidden",
+        }}
+      >
+        <div
+          style={{
+            width: indeterminate ? "40%" : `${pct}%`,
+            height: "100%",
+            background: "#93c5fd",
+            transition: "width 120ms linear",
+            animation: indeterminate
+              ? "layout-progress-slide 1.1s ease-in-out infinite"
+              : undefined,
+          }}
+        />
+      </div>
+      {indeterminate && <style>{SLIDE_CSS}</style>}
+    </div>
+  );
+}
+
+const badge: React.CSSProperties = {
+  position: "absolute",
+  left: 12,
+  top: 52,
+  display: "flex",
+  alignItems: "center",
+  gap: 8,
+  fontSize: 12,
+  zIndex: 3,
+};
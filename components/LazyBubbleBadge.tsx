@@ -0,0 +1,49 @@
+"use client";
+
+import React from "react";
+
+/**
+ * Ring drawn around a bubble (in its local coordinates) while its children
+ * are loading, or after loading failed (hover shows the error).
+ */
+export default function LazyBubbleBadge({
+  r,
+  pending,
+  error,
+}: {
+  r: number;
+  pending: boolean;
+  error?: string;
+}) {
+  if (pending) {
+    const ring = r + 4;
+    return (
+      <circle
+        r={ring}
+        fill="none"
+        stroke="#fff"
+        strokeWidth={2}
+        strokeLinecap="round"
+        strokeDasharray={`${ring * 1.5} ${ring * 5}`}
+        style={{ pointerEvents: "none" }}
+      >
+        <animateTransform
+          attributeName="transform"
+          type="rotate"
+          from="0"
+          to="360"
+          dur="0.9s"
+          repeatCount="indefinite"
+        />
+      </circle>
+    );
+  }
+  if (error) {
+    return (
+      <circle r={r + 3} fill="none" stroke="#f87171" strokeWidth={2}>
+        <title>Failed to load children: {error} (click to retry)</title>
+      </circle>
+    );
+  }
+  return null;
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import React from "react";
+import { AGGREGATIONS, Aggregation } from "@/lib/measures";
+
+const AGGREGATION_LABELS: Record<Aggregation, string> = {
+  sum: "sum",
+  mean: "mean",
+  max: "max",
+  count: "count of leaves",
+};
+
+/** "Size by <measure> (<aggregation>)" selectors for bubble area */
+export default function MeasureControls({
+  metrics,
+  sizeBy,
+  aggregation,
+  onSizeByChange,
+  onAggregationChange,
+  style,
+}: {
+  metrics: string[];
+  sizeBy: string;
+  aggregation: Aggregation;
+  onSizeByChange: (metric: string) => void;
+  onAggregationChange: (aggregation: Aggregation) => void;
+  style?: React.CSSProperties;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        alignItems: "center",
+        gap: 6,
+        fontSize: 13,
+        ...style,
+      }}
+    >
+      <span style={{ opacity: 0.75 }}>Size by</span>
+      <select
+        value={sizeBy}
+        onChange={(e) => onSizeByChange(e.target.value)}
+        disabled={aggregation === "count"}
+        style={select}
+      >
+        {metrics.map((m) => (
+          <option key={m} value={m}>
+            {m}
+          </option>
+        ))}
+      </select>
+      <select
+        value={aggregation}
+        onChange={(e) => onAggregationChange(e.target.value as Aggregation)}
+        title="How parent bubbles combine their leaves"
+        style={select}
+      >
+        {AGGREGATIONS.map((a) => (
+          <option key={a} value={a}>
+            {AGGREGATION_LABELS[a]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+const select: React.CSSProperties = {
+  border: "1px solid #3a4157",
+  background: "#0e1529",
+  color: "inherit",
+  borderRadius: 8,
+  padding: "2px 6px",
+};
@@ -1,113 +1,55 @@
 "use client";
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import {
-  hierarchy as d3Hierarchy,
-  pack as d3Pack,
-  HierarchyCircularNode,
-  HierarchyNode,
-} from "d3-hierarchy";
+import { HierarchyCircularNode } from "d3-hierarchy";
 import { scaleOrdinal } from "d3-scale";
 import { schemeCategory10 } from "d3-scale-chromatic";
+import {
+  FlatItem,
+  TreeNode,
+  HierarchyIssue,
+  NestedItem,
+  nestFlatToTree,
+  flattenNested,
+} from "@/lib/hierarchy";
+import { useRemoteHierarchy } from "@/lib/useRemoteHierarchy";
+import {
+  HierarchyNavigationProps,
+  useHierarchyNavigation,
+} from "@/lib/useHierarchyNavigation";
+import { Aggregation, formatMeasure, measureLabel } from "@/lib/measures";
+import { useMeasures } from "@/lib/useMeasures";
+import { useHierarchySearch } from "@/lib/useHierarchySearch";
+import { packFromPositions } from "@/lib/packLayout";
+import { attachBubbleData, LayoutInput } from "@/lib/layoutJobs";
+import { useLayoutJob } from "@/lib/useLayoutJob";
+import { TREEITEM_FOCUS_CSS, useRovingTree } from "@/lib/useRovingTree";
+import HierarchyBreadcrumb from "@/components/HierarchyBreadcrumb";
+import HierarchyIssuesPanel from "@/components/HierarchyIssuesPanel";
+import HierarchyLoadStatus from "@/components/HierarchyLoadStatus";
+import HierarchySearch, { SELECTED_STROKE } from "@/components/HierarchySearch";
+import LayoutProgress from "@/components/LayoutProgress";
+import MeasureControls from "@/components/MeasureControls";
 
 // ---------- Types ----------
-type FlatItem = {
-  name: string;
-  level: number; // 1..6
-  parent?: string;
-  source?: string;
-  value?: number; // optional weight (defaults to 1)
-};
-
-type TreeNode = {
-  name: string;
-  level?: number;
-  parent?: string;
-  source?: string;
-  value?: number;
-  children?: TreeNode[];
-};
-
-type BubbleHierarchyProps = {
-  data: FlatItem[];
+type BubbleHierarchyProps = HierarchyNavigationProps & {
+  data?: FlatItem[];
+  tree?: NestedItem | NestedItem[]; // pre-nested alternative to `data`
+  dataUrl?: string; // fetch rows (FlatItem[] or nested JSON) instead
+  refreshInterval?: number; // ms between background refetches of dataUrl
+  sizeBy?: string; // initial metric for bubble area: "value" or a measure name
+  aggregation?: Aggregation; // initial rollup for parent bubbles (default sum)
+  searchFields?: string[]; // node fields the search box matches (default name)
+  overlayDepth?: number; // generations shown in the overlay, 2–5 (default 2)
+  overlayMinRadius?: number; // smallest overlay child / grandchild bubble (px)
+  overlayMaxRadius?: number; // largest overlay child bubble (px)
   width?: number;
   height?: number;
   padding?: number;
   bg?: string;
 };
 
-type PlacedBubble = {
-  id: string;
-  name: string;
-  depth: 0 | 1 | 2; // parent, child, grandchild
-  data: TreeNode;
-  r: number;
-  x: number;
-  y: number;
-  parentId?: string;
-};
-
 // ---------- Utilities ----------
-function nestFlatToTree(items: FlatItem[]): TreeNode {
-  const byName = new Map<string, TreeNode>();
-  for (const it of items) {
-    if (it.level < 1 || it.level > 6) {
-      throw new Error(
-        `Level out of range (1..6) for "${it.name}" - got ${it.level}`
-      );
-    }
-    byName.set(it.name, { ...it, children: [] });
-  }
-  const roots: TreeNode[] = [];
-  for (const node of byName.values()) {
-    if (node.level === 1) {
-      roots.push(node);
-    } else {
-      const p = node.parent ? byName.get(node.parent) : undefined;
-      if (p) p.children!.push(node);
-      else roots.push(node);
-    }
-  }
-  return { name: "root", children: roots };
-}
-
-function findNodeByName(root: TreeNode, name: string): TreeNode | null {
-  if (root.name === name) return root;
-  if (!root.children) return null;
-  for (const c of root.children) {
-    const found = findNodeByName(c, name);
-    if (found) return found;
-  }
-  return null;
-}
-
-function findParentName(root: TreeNode, targetName: string): string | null {
-  function dfs(cur: TreeNode, parent: TreeNode | null): string | null {
-    if (cur.name === targetName) return parent?.name ?? null;
-    for (const c of cur.children || []) {
-      const r = dfs(c, cur);
-      if (r) return r;
-    }
-    return null;
-  }
-  return dfs(root, null);
-}
-
-/** d3.pack for main view (unchanged) */
-function computePackLayout(
-  subtree: TreeNode,
-  width: number,
-  height: number,
-  padding: number
-): HierarchyCircularNode<TreeNode> {
-  const root = d3Hierarchy(subtree)
-    .sum((d) => (typeof d.value === "number" ? d.value : 1))
-    .sort((a, b) => (b.value || 0) - (a.value || 0));
-  return d3Pack<TreeNode>().size([width, height]).padding(padding)(
-    root
-  ) as HierarchyCircularNode<TreeNode>;
-}
-
 type AnyRef<T> = React.RefObject<T | null> | React.MutableRefObject<T | null>;
 function useResizeObserver<T extends HTMLElement>(
   ref: AnyRef<T>
@@ -128,206 +70,52 @@ function useResizeObserver<T extends HTMLElement>(
   return size;
 }
 
-const clamp = (v: number, min: number, max: number) =>
-  Math.max(min, Math.min(max, v));
-
-/**
- * Bubble PACKING layout for 3 levels (parent center, children around,
- * grandchildren around each child). No nesting—everything is "beside".
- */
-/**
- * Bubble PACKING layout for 3 levels (parent center, children around,
- * grandchildren around each child on the OUTER side only).
- * Ensures grandchildren:
- *  - never sit between parent and child
- *  - avoid overlapping parent/children
- *  - distribute along an outward arc around each child
- */
-function computeBubblePackingLayout(
-  focus: TreeNode,
-  side: number
-): { nodes: PlacedBubble[]; side: number } {
-  const cx = side / 2;
-  const cy = side / 2;
-
-  const children = (focus.children || []) as TreeNode[];
-  const rParent = clamp(side * 0.16, 40, 120);
-
-  // ---- Place CHILDREN on a ring around the parent (same as before) ----
-  const childInfo = children.map((c) => {
-    const gc = c.children?.length ?? 0;
-    // child radius scales a bit with number of grandchildren
-    const r = clamp(
-      side * 0.06 + gc * (side * 0.005),
-      side * 0.05,
-      side * 0.12
-    );
-    return { node: c, r, gc };
-  });
-
-  const gapC = clamp(side * 0.008, 6, 16);
-  const circumferenceNeeded = childInfo.reduce(
-    (acc, it) => acc + (2 * it.r + gapC),
-    0
-  );
-  const baseRing =
-    rParent + (childInfo.reduce((m, it) => Math.max(m, it.r), 0) || 0) + 28;
-  const ringR = Math.max(baseRing, circumferenceNeeded / (2 * Math.PI));
-  const ringCirc = 2 * Math.PI * ringR;
-
-  let theta = 0;
-  type ChildPlaced = PlacedBubble & { angle: number };
-  const placedChildren: ChildPlaced[] = childInfo.map((it) => {
-    const arcLen = 2 * it.r + gapC;
-    const delta = (arcLen / ringCirc) * 2 * Math.PI;
-    const mid = theta + delta / 2;
-    const x = cx + ringR * Math.cos(mid);
-    const y = cy + ringR * Math.sin(mid);
-    theta += delta;
-    return {
-      id: it.node.name,
-      name: it.node.name,
-      depth: 1,
-      data: it.node,
-      r: it.r,
-      x,
-      y,
-      parentId: focus.name,
-      angle: mid, // <— angle from parent->child (used for outward arc)
-    };
-  });
-
-  // ---- Place GRANDCHILDREN on outward arc around each child ----
-  const gapG = clamp(side * 0.006, 4, 12);
-  const minGrandR = clamp(side * 0.042, 13, 32); // floor size; can still scale up if room allows
-  const arcSpan = (150 * Math.PI) / 180; // 140° outward arc (tweak 120–160 for aesthetics)
-  const safety = 6; // padding to avoid touching child/neighbor
-
-  const placedGrandchildren: PlacedBubble[] = [];
-
-  // Quick neighbor lookup to cap ring size so grandkids don't hit adjacent children
-  const childCount = placedChildren.length;
-  function neighborRingCap(ch: ChildPlaced, rG: number) {
-    if (childCount <= 1) return Infinity;
-    const idx = placedChildren.findIndex((p) => p.id === ch.id);
-    const prev = placedChildren[(idx - 1 + childCount) % childCount];
-    const next = placedChildren[(idx + 1) % childCount];
-
-    const distPrev = Math.hypot(ch.x - prev.x, ch.y - prev.y);
-    const distNext = Math.hypot(ch.x - next.x, ch.y - next.y);
-
-    // triangle inequality safe upper bound: ringG <= dist - neighbor.r - rG - safety
-    const capPrev = distPrev - prev.r - rG - safety;
-    const capNext = distNext - next.r - rG - safety;
-    return Math.max(0, Math.min(capPrev, capNext));
-  }
-
-  for (const ch of placedChildren) {
-    const gcNodes = (ch.data.children || []) as TreeNode[];
-    const N = gcNodes.length;
-    if (!N) continue;
-
-    // Start with a candidate grandchild radius (could be tuned per child size)
-    let rG = minGrandR;
-
-    // We want all N grandchildren on an outward arc of length: L = ringG * arcSpan.
-    // Needed arc length (no overlap): N * (2*rG + gapG). So ringG >= needed / arcSpan.
-    const neededArcLen = N * (2 * rG + gapG);
-
-    // Lower bound so grandkids don't touch child or parent:
-    // - not touching child: ringG >= ch.r + rG + safety
-    // - parent is always further away on outward side (child is already outside the parent),
-    //   so outward-only arc guarantees we never sit "between" parent & child.
-    let ringGmin = Math.max(neededArcLen / arcSpan, ch.r + rG + safety);
-
-    // Upper bound so grandkids don't hit neighboring children
-    let ringGmax = neighborRingCap(ch, rG);
-
-    // If we don't have enough room, try reducing rG proportionally once
-    if (ringGmax < ringGmin && isFinite(ringGmax) && ringGmax > 0) {
-      const ratio = clamp(ringGmax / ringGmin, 0.65, 1); // don't shrink below ~55%
-      rG = Math.max(6, rG * ratio);
-      const needed2 = N * (2 * rG + gapG);
-      ringGmin = Math.max(needed2 / arcSpan, ch.r + rG + safety);
-      ringGmax = neighborRingCap(ch, rG);
-    }
-
-    // Final ring radius for grandchildren around this child
-    let ringG = Math.max(ringGmin, 0);
-    if (isFinite(ringGmax))
-      ringG = Math.min(ringG, Math.max(ringGmax, ringGmin));
-
-    // Distribute grandkids evenly along outward arc centered at ch.angle
-    // Arc center = ch.angle (from parent to child). We use symmetric placement across the arc.
-    // Step by arc-length: Δθ_i ≈ (2*rG + gapG) / ringG
-    const stepTheta = (2 * rG + gapG) / ringG;
-    const totalTheta = (N - 1) * stepTheta; // spread N points by step
-    const thetaStart = ch.angle - totalTheta / 2; // centered on outward direction
-
-    for (let i = 0; i < N; i++) {
-      const theta = thetaStart + i * stepTheta;
-      const gx = ch.x + ringG * Math.cos(theta);
-      const gy = ch.y + ringG * Math.sin(theta);
-
-      placedGrandchildren.push({
-        id: `${ch.id}::${gcNodes[i].name}`,
-        name: gcNodes[i].name,
-        depth: 2,
-        data: gcNodes[i],
-        r: rG,
-        x: gx,
-        y: gy,
-        parentId: ch.id,
-      });
-    }
-  }
-
-  // Parent at center (render underneath)
-  const parentPlaced: PlacedBubble = {
-    id: focus.name,
-    name: focus.name,
-    depth: 0,
-    data: focus,
-    r: rParent,
-    x: cx,
-    y: cy,
-  };
-
-  const nodes = [parentPlaced, ...placedChildren, ...placedGrandchildren];
-  return { nodes, side };
-}
-
 // ---------- Component ----------
 export default function NewBubbleHierarchy({
   data,
+  tree: nested,
+  dataUrl,
+  refreshInterval,
+  sizeBy,
+  aggregation,
+  searchFields,
+  overlayDepth = 2,
+  overlayMinRadius,
+  overlayMaxRadius,
   width = 900,
   height = 600,
   padding = 6,
   bg = "#0b1220",
+  ...navProps
 }: BubbleHierarchyProps) {
   // Prepare tree
-  const tree: TreeNode = useMemo(() => nestFlatToTree(data), [data]);
+  const remote = useRemoteHierarchy(dataUrl, { refreshInterval });
+  const { tree, issues } = useMemo(() => {
+    const issues: HierarchyIssue[] = [];
+    const items = dataUrl
+      ? (remote.items ?? [])
+      : nested
+        ? flattenNested(nested)
+        : (data ?? []);
+    return { tree: nestFlatToTree(items, issues), issues };
+  }, [data, nested, dataUrl, remote.items]);
+  const measures = useMeasures(tree, { sizeBy, aggregation });
+  const search = useHierarchySearch(tree, searchFields);
   const color = React.useMemo(
     () => scaleOrdinal<string, string>(schemeCategory10),
     []
   );
 
-  // Main view focus (unchanged)
-  const [focusName, setFocusName] = useState<string>("root");
-
-  // Overlay modal state (updated)
-  const [isOverlayOpen, setIsOverlayOpen] = useState(false);
-  const [overlayFocusName, setOverlayFocusName] = useState<string | null>(null);
-
-  // Re-find nodes
-  const focusNode = useMemo(
-    () => findNodeByName(tree, focusName) ?? tree,
-    [tree, focusName]
-  );
-  const overlayNode = useMemo(
-    () => (overlayFocusName ? findNodeByName(tree, overlayFocusName) : null),
-    [overlayFocusName, tree]
-  );
+  // Focus, overlay focus and drill actions (shared with custom renderers)
+  const nav = useHierarchyNavigation(tree, navProps);
+  const {
+    focusNode,
+    overlayNode,
+    overlayFocusId,
+    isOverlayOpen,
+    breadcrumb,
+    canDrillDown,
+  } = nav;
 
   // Layout sizing
   const containerRef = useRef<HTMLDivElement>(null);
@@ -336,88 +124,123 @@ export default function NewBubbleHierarchy({
   const vh = Math.max(360, h || height);
 
   // Main view (still circle-packed for a clean "catalog" of the next level)
-  const packRoot = useMemo<HierarchyCircularNode<TreeNode>>(() => {
-    const target: TreeNode =
+  // (computed in the layout worker when large)
+  const packTarget = useMemo<TreeNode>(
+    () =>
       focusNode?.children && focusNode.children.length > 0
         ? { ...focusNode, children: focusNode.children }
-        : focusNode || tree;
-    return computePackLayout(target, vw, vh, padding);
-  }, [focusNode, vw, vh, padding, tree]);
-
-  // Breadcrumb path from root → focus
-  const breadcrumb = useMemo(() => {
-    const path: string[] = [];
-    let found = false;
-    function dfs(n: TreeNode, trail: string[]) {
-      if (n.name === focusName) {
-        found = true;
-        for (const t of trail) path.push(t);
-        path.push(n.name);
-        return;
-      }
-      for (const c of n.children || []) {
-        if (found) return;
-        dfs(c, [...trail, n.name]);
-      }
-    }
-    dfs(tree, []);
-    return path.filter((x) => x !== "root");
-  }, [tree, focusName]);
-
-  // Click handlers (main view)
-  const canDrillDown = (n: HierarchyNode<TreeNode>) =>
-    !!(n.data.children && n.data.children.length > 0);
-  const handleBubbleClick = (n: HierarchyNode<TreeNode>) => {
-    if (canDrillDown(n)) {
-      setOverlayFocusName(n.data.name);
-      setIsOverlayOpen(true);
-    }
-  };
-
-  // Overlay drill handlers
-  const overlayDrillDown = (n: PlacedBubble) => {
-    const target = findNodeByName(tree, n.name);
-    if (target?.children && target.children.length > 0) {
-      setOverlayFocusName(n.name);
-    }
-  };
-  const overlayDrillUp = () => {
-    if (!overlayFocusName) return;
-    const p = findParentName(tree, overlayFocusName);
-    if (p) setOverlayFocusName(p);
-    else setIsOverlayOpen(false);
-  };
+        : focusNode || tree,
+    [focusNode, tree]
+  );
+  const packJob = useLayoutJob(
+    "pack",
+    useMemo(
+      () => ({
+        tree: packTarget,
+        width: vw,
+        height: vh,
+        padding,
+        sizes: measures.sizes,
+        depth: 1,
+      }),
+      [packTarget, vw, vh, padding, measures.sizes]
+    )
+  );
+  const packRoot = useMemo<HierarchyCircularNode<TreeNode>>(
+    () => packFromPositions(packTarget, vw, vh, packJob.result, 1),
+    [packTarget, vw, vh, packJob.result]
+  );
 
   // Re-animate on overlay focus change
   const [overlayAnimKey, setOverlayAnimKey] = useState(0);
   useEffect(() => {
-    if (isOverlayOpen && overlayFocusName) setOverlayAnimKey((k) => k + 1);
-  }, [isOverlayOpen, overlayFocusName]);
-
-  // Bubble-packing layout for modal (parent + children + grandchildren)
-  const overlayLayout = useMemo(() => {
-    if (!overlayNode) return null;
-    const side = Math.floor(Math.min(vw, vh) * 0.9);
-    return computeBubblePackingLayout(overlayNode, side);
-  }, [overlayNode, vw, vh]);
+    if (isOverlayOpen && overlayFocusId) setOverlayAnimKey((k) => k + 1);
+  }, [isOverlayOpen, overlayFocusId]);
+
+  // Bubble-packing layout for modal (parent + `overlayDepth` generations)
+  const overlayJob = useLayoutJob(
+    "bubble",
+    useMemo<LayoutInput<"bubble"> | null>(
+      () =>
+        overlayNode && {
+          focus: overlayNode,
+          side: Math.floor(Math.min(vw, vh) * 0.9),
+          arrangement: "arc",
+          overlayDepth,
+          sizes: measures.sizes,
+          minRadius: overlayMinRadius,
+          maxRadius: overlayMaxRadius,
+        },
+      [
+        overlayNode,
+        vw,
+        vh,
+        overlayDepth,
+        measures.sizes,
+        overlayMinRadius,
+        overlayMaxRadius,
+      ]
+    )
+  );
+  const overlayLayout = useMemo(
+    () => overlayNode && attachBubbleData(overlayJob.result, overlayNode),
+    [overlayNode, overlayJob.result]
+  );
 
-  // Main drill up (header button)
-  const drillUp = () => {
-    function findParent(
-      current: TreeNode,
-      parent: TreeNode | null
-    ): string | null {
-      if (current.name === focusName) return parent?.name || "root";
-      for (const c of current.children || []) {
-        const res = findParent(c, current);
-        if (res) return res;
-      }
-      return null;
+  // Keyboard: roving focus + ARIA tree over the visible bubbles
+  const mainBubbles = useMemo(
+    () => packRoot.descendants().filter((d) => d.depth === 1),
+    [packRoot]
+  );
+  const mainTree = useRovingTree(
+    useMemo(
+      () =>
+        mainBubbles.map((d) => ({
+          id: d.data.id,
+          parentId: null,
+          level: d.data.level ?? breadcrumb.length + 1,
+          branch: canDrillDown(d.data),
+        })),
+      [mainBubbles, breadcrumb.length, canDrillDown]
+    ),
+    {
+      onEnter: (id) => {
+        const d = mainBubbles.find((b) => b.data.id === id);
+        if (d) nav.openOverlay(d.data);
+      },
+      onBack: () => {
+        nav.drillUp();
+        return focusNode.id; // the bubble we came from
+      },
+      // back from the overlay, or to the next level up
+      focusKey: isOverlayOpen ? null : focusNode.id,
+    }
+  );
+  const overlayTree = useRovingTree(
+    useMemo(
+      () =>
+        (overlayLayout?.nodes ?? []).map((n) => ({
+          id: n.id,
+          parentId: n.parentId ?? null,
+          level: n.data.level ?? n.depth + 1,
+          branch: canDrillDown(n.data),
+        })),
+      [overlayLayout, canDrillDown]
+    ),
+    {
+      onEnter: (id) => {
+        const n = overlayLayout?.nodes.find((b) => b.id === id);
+        if (n) nav.overlayDrillDown(n.data);
+      },
+      onBack: () => {
+        const from = overlayFocusId;
+        nav.overlayDrillUp();
+        return from ?? undefined;
+      },
+      onEscape: nav.closeOverlay,
+      focusKey: overlayFocusId,
     }
-    const parentName = findParent(tree, null) || "root";
-    setFocusName(parentName);
-    // don't touch modal here
-  };
+  );
 
   return (
     <div
@@ -447,90 +270,87 @@ export default function NewBubbleHierarchy({
           zIndex: 2,
         }}
       >
-        <strong style={{ opacity: 0.85 }}>Path:</strong>
-        {breadcrumb.length === 0 ? (
-          <span>root</span>
-        ) : (
-          <>
-            <button
-              onClick={drillUp}
-              title="Drill up"
-              style={{
-                border: "1px solid #3a4157",
-                background: "rgba(255,255,255,0.08)",
-                color: "inherit",
-                borderRadius: 8,
-                padding: "2px 8px",
-                cursor: "pointer",
-              }}
-            >
-              ← Up
-            </button>
-            <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
-              {breadcrumb.map((b, i) => (
-                <span
-                  key={b}
-                  style={{ opacity: i === breadcrumb.length - 1 ? 1 : 0.7 }}
-                >
-                  {b}
-                  {i < breadcrumb.length - 1 && " / "}
-                </span>
-              ))}
-            </div>
-          </>
-        )}
+        <HierarchyBreadcrumb breadcrumb={breadcrumb} onUp={nav.drillUp} />
+        <HierarchySearch
+          search={search}
+          onPick={(r) => nav.reveal(r.node)}
+          style={{ marginLeft: "auto" }}
+        />
+        <MeasureControls
+          metrics={measures.metrics}
+          sizeBy={measures.sizeBy}
+          aggregation={measures.aggregation}
+          onSizeByChange={measures.setSizeBy}
+          onAggregationChange={measures.setAggregation}
+        />
       </div>
 
+      <HierarchyIssuesPanel issues={issues} />
+      <HierarchyLoadStatus remote={remote} hasData={!!remote.items} />
+      <LayoutProgress
+        progress={packJob.progress ?? overlayJob.progress}
+        error={packJob.error ?? overlayJob.error}
+      />
+
       {/* Main SVG (unchanged layout, animated transform for smoothness) */}
       <svg width={vw} height={vh} style={{ display: "block" }}>
-        <g>
-          {packRoot
-            .descendants()
-            .filter((d) => d.depth === 1)
-            .map((d, i) => {
-              const fillKey =
-                d.data.source ??
-                `${d.parent?.data.name ?? ""}${d.data.level ?? ""}${d.data.name ?? ""}`;
-              return (
-                <g
-                  key={`${d.data.name}-${i}`}
+        <g role="tree" aria-label={focusNode.name}>
+          {mainBubbles.map((d) => {
+            const fillKey =
+              d.data.source ??
+              `${d.parent?.data.name ?? ""}${d.data.level ?? ""}${d.data.name ?? ""}`;
+            return (
+              <g
+                key={d.data.id}
+                style={{
+                  transform: `translate(${d.x}px, ${d.y}px)`,
+                  transition: "transform 320ms cubic-bezier(.2,.8,.2,1)",
+                  cursor: nav.canDrillDown(d.data) ? "pointer" : "default",
+                  opacity: search.isDimmed(d.data.id) ? 0.25 : 1,
+                }}
+                {...nav.getNodeProps(d.data, "main", () =>
+                  nav.openOverlay(d.data)
+                )}
+                {...mainTree.getItemProps(d.data.id)}
+                aria-label={d.data.name}
+              >
+                <circle
+                  r={d.r}
+                  fill={String(color(fillKey))}
+                  fillOpacity={0.85}
+                  stroke={
+                    search.selectedId === d.data.id
+                      ? SELECTED_STROKE
+                      : "rgba(255,255,255,0.15)"
+                  }
+                  strokeWidth={search.selectedId === d.data.id ? 3 : 1.5}
+                />
+                <text
+                  textAnchor="middle"
+                  dy="0.35em"
                   style={{
-                    transform: `translate(${d.x}px, ${d.y}px)`,
-                    transition: "transform 320ms cubic-bezier(.2,.8,.2,1)",
-                    cursor: canDrillDown(d) ? "pointer" : "default",
+                    pointerEvents: "none",
+                    fill: "#fff",
+                    fontSize: Math.max(10, Math.min(18, d.r / 3)),
+                    fontWeight: 600,
+                    filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
                   }}
-                  onClick={() => handleBubbleClick(d)}
                 >
-                  <circle
-                    r={d.r}
-                    fill={String(color(fillKey))}
-                    fillOpacity={0.85}
-                    stroke="rgba(255,255,255,0.15)"
-                    strokeWidth={1.5}
-                  />
-                  <text
-                    textAnchor="middle"
-                    dy="0.35em"
-                    style={{
-                      pointerEvents: "none",
-                      fill: "#fff",
-                      fontSize: Math.max(10, Math.min(18, d.r / 3)),
-                      fontWeight: 600,
-                      filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
-                    }}
-                  >
-                    {d.data.name}
-                  </text>
-                </g>
-              );
-            })}
+                  {d.data.name}
+                </text>
+                <title>
+                  {`${d.data.name}: ${measureLabel(measures.sizeBy, measures.aggregation)} = ${formatMeasure(measures.sizes.get(d.data.id) ?? 0)}`}
+                </title>
+              </g>
+            );
+          })}
         </g>
       </svg>
 
       {/* Overlay / Modal: Bubble PACKING hierarchy (3 levels visible) */}
       {isOverlayOpen && overlayNode && overlayLayout && (
         <div
-          onClick={() => setIsOverlayOpen(false)}
+          onClick={nav.closeOverlay}
           style={{
             position: "absolute",
             inset: 0,
@@ -564,7 +384,7 @@ export default function NewBubbleHierarchy({
             >
               <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
                 <button
-                  onClick={overlayDrillUp}
+                  onClick={nav.overlayDrillUp}
                   title="Drill up"
                   style={{
                     border: "1px solid #3a4157",
@@ -579,11 +399,20 @@ export default function NewBubbleHierarchy({
                 </button>
                 <strong style={{ fontSize: 16 }}>{overlayNode.name}</strong>
                 <span style={{ opacity: 0.7 }}>
-                  (click a bubble to drill; click outside to close)
+                  (click or Enter to drill; Backspace up, Esc or click outside
+                  to close)
                 </span>
+                {overlayLayout.scale < 1 && (
+                  <span
+                    title="Too many bubbles for the view; everything was shrunk to fit"
+                    style={{ opacity: 0.7, fontSize: 12 }}
+                  >
+                    Scaled to {Math.round(overlayLayout.scale * 100)}%
+                  </span>
+                )}
               </div>
               <button
-                onClick={() => setIsOverlayOpen(false)}
+                onClick={nav.closeOverlay}
                 style={{
                   border: "1px solid #3a4157",
                   background: "rgba(255,255,255,0.08)",
@@ -615,24 +444,28 @@ export default function NewBubbleHierarchy({
                 height={overlayLayout.side}
                 style={{ display: "block" }}
               >
-                <g>
-                  {overlayLayout.nodes.map((n, i) => {
+                <g role="tree" aria-label={overlayNode.name}>
+                  {overlayLayout.nodes.map((n) => {
                     const fillKey =
                       n.data.source ??
                       `${n.parentId ?? ""}-${n.data.level ?? ""}-${n.data.name ?? ""}`;
                     return (
                       <g
-                        key={`${n.id}-${i}`}
+                        key={n.id}
                         style={{
                           transform: `translate(${n.x}px, ${n.y}px)`,
                           transition:
                             "transform 320ms cubic-bezier(.2,.8,.2,1)",
-                          cursor:
-                            n.data.children && n.data.children.length > 0
-                              ? "pointer"
-                              : "default",
+                          cursor: nav.canDrillDown(n.data)
+                            ? "pointer"
+                            : "default",
+                          opacity: search.isDimmed(n.id) ? 0.25 : 1,
                         }}
-                        onClick={() => overlayDrillDown(n)}
+                        {...nav.getNodeProps(n.data, "overlay", () =>
+                          nav.overlayDrillDown(n.data)
+                        )}
+                        {...overlayTree.getItemProps(n.id)}
+                        aria-label={n.name}
                       >
                         <circle
                           r={n.r}
@@ -640,8 +473,12 @@ export default function NewBubbleHierarchy({
                           fillOpacity={
                             n.depth === 0 ? 0.75 : n.depth === 1 ? 0.88 : 0.95
                           }
-                          stroke="rgba(255,255,255,0.2)"
-                          strokeWidth={1.25}
+                          stroke={
+                            search.selectedId === n.id
+                              ? SELECTED_STROKE
+                              : "rgba(255,255,255,0.2)"
+                          }
+                          strokeWidth={search.selectedId === n.id ? 3 : 1.25}
                         />
                         <text
                           textAnchor="middle"
@@ -659,8 +496,11 @@ export default function NewBubbleHierarchy({
                             filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
                           }}
                         >
-                          {n.name}
+                          {n.depth <= 2 || n.r >= 10 ? n.name : null}
                         </text>
+                        <title>
+                          {`${n.name}: ${measureLabel(measures.sizeBy, measures.aggregation)} = ${formatMeasure(measures.sizes.get(n.id) ?? 0)}`}
+                        </title>
                       </g>
                     );
                   })}
@@ -676,6 +516,7 @@ export default function NewBubbleHierarchy({
           from { opacity: 0; transform: scale(0.98); }
           to { opacity: 1; transform: scale(1); }
         }
+        ${TREEITEM_FOCUS_CSS}
       `}</style>
     </div>
   );
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import type { MouseEvent } from "react";
+import { HierarchyCircularNode } from "d3-hierarchy";
+import type { TreeNode } from "@/lib/hierarchy";
+import type { HierarchyNavigation } from "@/lib/useHierarchyNavigation";
+import type { ViewTransform } from "@/lib/useZoom";
+import {
+  PackCanvasStyle,
+  drawPack,
+  hitTestPack,
+  visiblePackNodes,
+} from "@/lib/packCanvas";
+
+type PackNode = HierarchyCircularNode<TreeNode>;
+type NodeProps = ReturnType<HierarchyNavigation["getNodeProps"]>;
+
+/**
+ * Canvas backend for a circle-packing layout: one element for the whole
+ * tree, so tens of thousands of nodes stay smooth. Only on-screen circles
+ * of at least half a pixel are painted; clicks and hovers are hit-tested
+ * and routed through the same `getNodeProps` handlers as the SVG bubbles.
+ */
+export default function PackCanvas({
+  root,
+  width,
+  height,
+  transform: t,
+  styleOf,
+  minLabelR,
+  getNodeProps,
+  isClickable,
+  onBackgroundClick,
+  label,
+}: {
+  root: PackNode;
+  width: number;
+  height: number;
+  transform: ViewTransform;
+  styleOf: (d: PackNode) => PackCanvasStyle;
+  minLabelR: number; // on-screen radius (px) below which labels hide
+  getNodeProps: (d: PackNode) => NodeProps;
+  isClickable?: (d: PackNode) => boolean;
+  onBackgroundClick?: () => void;
+  label?: string; // accessible name of the drawing
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const hovered = useRef<PackNode | null>(null);
+  // Backing store in device pixels (read after mount: no SSR mismatch)
+  const [dpr, setDpr] = useState(1);
+  useEffect(() => setDpr(window.devicePixelRatio || 1), []);
+
+  // Repaint at most once per frame (zoom gestures re-render often)
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => {
+      const ctx = canvasRef.current?.getContext("2d");
+      if (!ctx) return;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, width, height);
+      const nodes = visiblePackNodes(root, t, width, height);
+      drawPack(ctx, nodes, t, { styleOf, minLabelR });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [root, t, width, height, dpr, styleOf, minLabelR]);
+
+  const hitAt = (e: MouseEvent<HTMLCanvasElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    return hitTestPack(root, e.clientX - box.left, e.clientY - box.top, t);
+  };
+
+  const setHovered = (d: PackNode | null, e: MouseEvent<HTMLCanvasElement>) => {
+    if (d === hovered.current) return;
+    if (hovered.current) getNodeProps(hovered.current).onMouseLeave();
+    hovered.current = d;
+    if (d) getNodeProps(d).onMouseEnter(e);
+    e.currentTarget.style.cursor =
+      d && isClickable?.(d) ? "pointer" : "default";
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={Math.round(width * dpr)}
+      height={Math.round(height * dpr)}
+      style={{ display: "block", width, height }}
+      role="img"
+      aria-label={label}
+      onMouseMove={(e) => setHovered(hitAt(e), e)}
+      onMouseLeave={(e) => setHovered(null, e)}
+      onClick={(e) => {
+        const d = hitAt(e);
+        if (d) getNodeProps(d).onClick(e);
+        else onBackgroundClick?.();
+      }}
+      onDoubleClick={(e) => {
+        const d = hitAt(e);
+        if (d) getNodeProps(d).onDoubleClick(e);
+      }}
+    />
+  );
+}
@@ -1,21 +1,27 @@
 "use client";
 
-import React, { useEffect, useMemo, useRef } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import * as d3 from "d3";
+import { FlatItem, TreeNode, nestFlatToTree } from "@/lib/hierarchy";
+import { colorKeys } from "@/lib/hierarchyColors";
+import { fitLabel } from "@/lib/partitionLayout";
+import {
+  BubbleCluster,
+  ClusterOutline,
+  GroupPlacement,
+  OUTLINE_GAP,
+  clusterOutline,
+  groupRadius,
+  nestedCluster,
+  placeGroups,
+} from "@/lib/bubbleClusters";
 
 /** ---------- Types ---------- */
-type FlatItem = {
-  name: string;
-  level: number; // 1..6
-  parent?: string;
-  source?: string;
-  value?: number; // optional weight
-};
-
 type Node = d3.SimulationNodeDatum & {
   id: string;
   label: string;
-  group: string;
+  group: string; // grouping key (a node id when grouped by parent)
+  groupLabel: string;
   level: number;
   r: number;
   source?: string;
@@ -25,11 +31,41 @@ type Node = d3.SimulationNodeDatum & {
 
 type ForcePackedBubblesProps = {
   data: FlatItem[];
-  groupBy?: "source" | "level" | "parent" | "none";
+  groupBy?: "source" | "level" | "parent" | "hierarchy" | "none"; // "hierarchy": nested parent/child clusters
+  groupLayout?: GroupPlacement; // where group centers go (default: "pack" for hierarchy, else "row")
+  outline?: ClusterOutline; // drawn around each group, with its label (default: "circle" for hierarchy, else "none")
   bg?: string;
   collidePadding?: number; // extra spacing between bubbles
+  seed?: number; // seeds the random start positions, for reproducible layouts
+  positions?: BubblePositions; // start here instead (e.g. from onSettle); applied when it changes
+  onSettle?: (positions: BubblePositions) => void; // each time the simulation comes to rest
+  pinOnDrag?: boolean; // initial state of the "Pin dragged" toggle
 };
 
+/** Bubble positions keyed by node id, as exported by onSettle */
+export type BubblePositions = Record<
+  string,
+  { x: number; y: number; pinned?: boolean }
+>;
+
+type Cluster = Omit<BubbleCluster, "members"> & { members: Node[] };
+
+const LABEL_SIZE = 11; // group titles
+const TRANSITION_MS = 600; // bubbles and outlines entering / leaving
+const PIN_STROKE = "#fff";
+
+/** Pinned bubbles get a dashed white ring */
+function markPinned<P extends d3.BaseType, PD>(
+  circles: d3.Selection<SVGCircleElement, Node, P, PD>
+) {
+  circles
+    .attr("stroke", (d) =>
+      d.fx != null ? PIN_STROKE : "rgba(255,255,255,0.22)"
+    )
+    .attr("stroke-width", (d) => (d.fx != null ? 2.5 : 1.2))
+    .attr("stroke-dasharray", (d) => (d.fx != null ? "4 2" : null));
+}
+
 /** ---------- Resize Observer ---------- */
 function useResizeObserver<T extends HTMLElement>(
   ref: React.RefObject<T | null> | React.MutableRefObject<T | null>
@@ -54,8 +90,14 @@ function useResizeObserver<T extends HTMLElement>(
 export default function PackedBubbles({
   data,
   groupBy = "source",
+  groupLayout = groupBy === "hierarchy" ? "pack" : "row",
+  outline = groupBy === "hierarchy" ? "circle" : "none",
   bg = "#0b1220",
   collidePadding = 2,
+  seed,
+  positions,
+  onSettle,
+  pinOnDrag = false,
 }: ForcePackedBubblesProps) {
   const wrapRef = useRef<HTMLDivElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
@@ -65,14 +107,13 @@ export default function PackedBubbles({
 
   // ---------- Preprocess nodes ----------
   // Build a radius based on optional value (sqrt scale) or level fallback
-  const valueExtent = d3.extent(data.map((d) => d.value ?? 1)) as [
-    number,
-    number,
-  ];
-  const clamp = (v: number, min: number, max: number) =>
-    Math.max(min, Math.min(max, v));
   const rScale = useMemo(() => {
-    const [vmin, vmax] = valueExtent || [1, 1];
+    const clamp = (v: number, min: number, max: number) =>
+      Math.max(min, Math.min(max, v));
+    const [vmin, vmax] = d3.extent(data.map((d) => d.value ?? 1)) as [
+      number,
+      number,
+    ];
     if (vmin === vmax) {
       // no values or all equal → use level-based sizing
       return (d: FlatItem) => clamp(10, 36 - (d.level ?? 3) * 4, 42);
@@ -82,46 +123,121 @@ export default function PackedBubbles({
       .domain([Math.max(0.1, vmin), vmax])
       .range([10, 42]);
     return (d: FlatItem) => s(d.value ?? 1);
-  }, [valueExtent, data]);
+  }, [data]);
+
+  // Rows nested once, so bubbles share ids and parent links with the tree
+  const tree = useMemo(() => nestFlatToTree(data), [data]);
 
   const nodes: Node[] = useMemo(() => {
-    // Decide grouping key
-    const key = (d: FlatItem) => {
+    const topOf = colorKeys(tree);
+    // Decide grouping key; parents are the resolved tree nodes (rows may
+    // link by `parentId` only), keyed by id so equal names stay apart
+    const key = (d: TreeNode, parent?: TreeNode) => {
       if (groupBy === "source") return d.source ?? "Unknown";
       if (groupBy === "level") return `L${d.level}`;
-      if (groupBy === "parent") return d.parent ?? "(no parent)";
+      if (groupBy === "parent") return parent?.id ?? "(no parent)";
+      if (groupBy === "hierarchy") return topOf.get(d.id)!;
       return "All";
     };
 
-    return data.map((d, i) => ({
-      id: `${d.source ?? "unknown"}::${d.level}::${d.parent ?? "-"}::${d.name}`,
-      label: d.name,
-      group: key(d),
-      level: d.level,
-      r: rScale(d),
-      x: Math.random() * width,
-      y: Math.random() * height,
-      vx: 0,
-      vy: 0,
-      source: d.source,
-      parent: d.parent,
-      value: d.value,
-    }));
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data, groupBy, rScale, width, height]);
+    const out: Node[] = [];
+    const visit = (d: TreeNode, parent?: TreeNode) => {
+      out.push({
+        id: d.id,
+        label: d.name,
+        group: key(d, parent),
+        groupLabel:
+          groupBy === "parent"
+            ? (parent?.name ?? "(no parent)")
+            : key(d, parent),
+        level: d.level!,
+        r: rScale(d),
+        source: d.source,
+        parent: parent?.name,
+        value: d.value,
+      });
+      d.children?.forEach((c) => visit(c, d));
+    };
+    tree.children?.forEach((c) => visit(c));
+    return out;
+  }, [tree, groupBy, rScale]);
 
   // Unique groups & scales for clustering
   const groups = useMemo(
     () => Array.from(new Set(nodes.map((n) => n.group))),
     [nodes]
   );
-  const xScale = useMemo(() => {
-    if (groupBy === "none") return () => width / 2;
-    return d3
-      .scalePoint<string>()
-      .domain(groups)
-      .range([Math.max(80, width * 0.1), Math.min(width - 80, width * 0.9)]);
-  }, [groups, groupBy, width]);
+  const groupLabels = useMemo(
+    () => new Map(nodes.map((n) => [n.group, n.groupLabel])),
+    [nodes]
+  );
+
+  // Target point per bubble, and the clusters to outline
+  const clustering = useMemo(() => {
+    const byId = new Map(nodes.map((n) => [n.id, n]));
+    const targets = new Map<string, [number, number]>();
+    const clusters: Cluster[] = [];
+    const members = (ids: string[]) => ids.map((id) => byId.get(id)!);
+
+    if (groupBy === "hierarchy") {
+      // each top-level branch packs its descendants around their parents
+      const branches = (tree.children ?? []).map((b) => ({
+        key: b.id,
+        ...nestedCluster(b, (n) => rScale(n) + collidePadding),
+      }));
+      const { centers, scale } = placeGroups(
+        branches,
+        groupLayout,
+        width,
+        height
+      );
+      for (const b of branches) {
+        const [cx, cy] = centers.get(b.key)!;
+        b.offsets.forEach(([dx, dy], id) =>
+          targets.set(id, [cx + dx * scale, cy + dy * scale])
+        );
+        for (const c of b.clusters)
+          clusters.push({ ...c, members: members(c.members) });
+      }
+      clusters.sort((a, b) => a.depth - b.depth); // outer outlines first
+      return { targets, clusters };
+    }
+
+    const { centers } = placeGroups(
+      groups.map((g) => ({
+        key: g,
+        r: groupRadius(
+          nodes.filter((n) => n.group === g).map((n) => n.r),
+          collidePadding
+        ),
+      })),
+      groupBy === "none" ? "row" : groupLayout,
+      width,
+      height
+    );
+    for (const n of nodes) targets.set(n.id, centers.get(n.group)!);
+    if (groupBy !== "none")
+      for (const g of groups)
+        clusters.push({
+          id: g,
+          label: groupLabels.get(g)!,
+          depth: 0,
+          pad: OUTLINE_GAP,
+          members: nodes.filter((n) => n.group === g),
+        });
+    return { targets, clusters };
+  }, [
+    nodes,
+    groups,
+    groupLabels,
+    tree,
+    groupBy,
+    groupLayout,
+    rScale,
+    collidePadding,
+    width,
+    height,
+  ]);
 
   const color = useMemo(
     () => d3.scaleOrdinal<string, string>(d3.schemeTableau10).domain(groups),
@@ -129,46 +245,164 @@ export default function PackedBubbles({
   );
 
   // ---------- D3 rendering & simulation ----------
+  // One simulation for the component's lifetime: data and grouping changes
+  // re-target it, so bubbles glide to their new groups instead of restarting
+  const simRef = useRef<d3.Simulation<Node, undefined> | null>(null);
+  useEffect(() => () => void simRef.current?.stop(), []);
+
+  // Read from d3 handlers without restarting the simulation
+  const [pinning, setPinning] = useState(pinOnDrag);
+  const pinRef = useRef(pinning);
+  const onSettleRef = useRef(onSettle);
   useEffect(() => {
+    pinRef.current = pinning;
+    onSettleRef.current = onSettle;
+  });
+  const applied = useRef<BubblePositions | undefined>(undefined);
+
+  useEffect(() => {
+    if (!w) return; // lay out once the real size is known
     const svg = d3.select(svgRef.current);
-    svg.selectAll("*").remove(); // clear previous
+    const sim = (simRef.current ??= d3
+      .forceSimulation<Node>()
+      .force("charge", d3.forceManyBody<Node>().strength(0)) // neutral charge; packing comes from collide
+      .alphaDecay(0.05));
+    const { targets, clusters } = clustering;
 
-    // Root group
-    const g = svg.append("g");
+    // Bubbles keep their position (and pin) by id, unless new positions
+    // were passed in; the rest start at their target
+    const random = seed === undefined ? Math.random : d3.randomLcg(seed);
+    const imported = positions !== applied.current ? positions : undefined;
+    applied.current = positions;
+    const previous = new Map(sim.nodes().map((n) => [n.id, n]));
+    for (const n of nodes) {
+      const p = previous.get(n.id);
+      const [tx, ty] = targets.get(n.id)!;
+      const given = imported?.[n.id];
+      if (given) {
+        Object.assign(n, { x: given.x, y: given.y, vx: 0, vy: 0 });
+        n.fx = n.fy = null;
+        if (given.pinned) [n.fx, n.fy] = [given.x, given.y];
+        continue;
+      }
+      n.x = p ? p.x : tx + (random() - 0.5) * n.r;
+      n.y = p ? p.y : ty + (random() - 0.5) * n.r;
+      n.vx = p?.vx ?? 0;
+      n.vy = p?.vy ?? 0;
+      n.fx = p?.fx ?? null;
+      n.fy = p?.fy ?? null;
+    }
 
     // Legend (top)
-    if (groupBy !== "none") {
-      const legend = g.append("g").attr("transform", `translate(12, 12)`);
-      const L_SIZE = 12;
-      groups.forEach((grp, i) => {
-        const row = legend
-          .append("g")
-          .attr("transform", `translate(0, ${i * 18})`);
+    const L_SIZE = 12;
+    svg
+      .select("g.legend")
+      .selectAll<SVGGElement, string>("g")
+      .data(groupBy === "none" ? [] : groups, (grp) => grp)
+      .join((enter) => {
+        const row = enter.append("g");
         row
           .append("rect")
           .attr("rx", 3)
           .attr("ry", 3)
           .attr("width", L_SIZE)
           .attr("height", L_SIZE)
-          .attr("fill", color(grp))
           .attr("fill-opacity", 0.9);
         row
           .append("text")
           .attr("x", L_SIZE + 6)
           .attr("y", L_SIZE - 2)
           .attr("fill", "#e3e7ef")
-          .attr("font-size", 12)
-          .text(grp);
-      });
-    }
+          .attr("font-size", 12);
+        return row;
+      })
+      .attr("transform", (_, i) => `translate(0, ${i * 18})`)
+      .call((row) => row.select("rect").attr("fill", (grp) => color(grp)))
+      .call((row) => row.select("text").text((grp) => groupLabels.get(grp)!));
+
+    // Group titles always; nested clusters only show with outlines
+    const shown =
+      outline === "none" ? clusters.filter((c) => c.depth === 0) : clusters;
+    const fadeIn = <E extends d3.BaseType>(
+      s: d3.Selection<E, Cluster, d3.BaseType, unknown>
+    ) =>
+      s
+        .attr("opacity", 0)
+        .transition()
+        .duration(TRANSITION_MS)
+        .attr("opacity", 1);
+    // exiting elements lose their class so later joins skip them
+    const fadeOut = <E extends d3.BaseType>(
+      s: d3.Selection<E, Cluster, d3.BaseType, unknown>
+    ) =>
+      s
+        .attr("class", null)
+        .transition()
+        .duration(TRANSITION_MS)
+        .attr("opacity", 0)
+        .remove();
+
+    // Group outlines (behind the bubbles)
+    const outlines = svg
+      .select("g.outlines")
+      .selectAll<SVGPathElement, Cluster>("path.outline")
+      .data(outline === "none" ? [] : shown, (c) => c.id)
+      .join(
+        (enter) => enter.append("path").attr("class", "outline").call(fadeIn),
+        (update) => update,
+        (exit) => exit.call(fadeOut)
+      )
+      .attr("fill", (c) => color(c.members[0].group))
+      .attr("fill-opacity", (c) => (c.depth === 0 ? 0.08 : 0.05))
+      .attr("stroke", (c) => color(c.members[0].group))
+      .attr("stroke-opacity", 0.55)
+      .attr("stroke-width", (c) => (c.depth === 0 ? 1.5 : 1))
+      .attr("stroke-dasharray", (c) => (c.depth === 0 ? null : "4 3"));
 
     // Node groups
-    const nodeG = g
-      .selectAll("g.node")
-      .data(nodes, (d: any) => d.id)
-      .join("g")
-      .attr("class", "node")
-      .style("cursor", "grab")
+    const nodeG = svg
+      .select("g.nodes")
+      .selectAll<SVGGElement, Node>("g.node")
+      .data(nodes, (d) => d.id)
+      .join(
+        (enter) => {
+          const e = enter
+            .append("g")
+            .attr("class", "node")
+            .style("cursor", "grab");
+          e.append("circle")
+            .attr("r", 0) // grows in below
+            .attr("fill-opacity", 0.9)
+            .attr("stroke", "rgba(255,255,255,0.22)")
+            .attr("stroke-width", 1.2);
+          e.append("text")
+            .attr("text-anchor", "middle")
+            .attr("dy", "0.35em")
+            .attr("pointer-events", "none")
+            .attr("fill", "#fff")
+            .attr("font-weight", 600)
+            .style("filter", "drop-shadow(0 1px 1px rgba(0,0,0,0.65))");
+          return e;
+        },
+        (update) => update,
+        (exit) =>
+          exit
+            .attr("class", null)
+            .call((x) =>
+              x
+                .select("circle")
+                .transition()
+                .duration(TRANSITION_MS)
+                .attr("r", 0)
+            )
+            .call((x) =>
+              x
+                .transition()
+                .duration(TRANSITION_MS)
+                .style("opacity", 0)
+                .remove()
+            )
+      )
       .call(
         d3
           .drag<SVGGElement, Node>()
@@ -182,51 +416,100 @@ export default function PackedBubbles({
             d.fx = event.x;
             d.fy = event.y;
           })
-          .on("end", function (_event, d) {
+          .on("end", function (event, d) {
             d3.select(this).style("cursor", "grab");
-            if (!(_event as any).active) sim.alphaTarget(0);
-            // release fixed position so it rejoins the pack
-            d.fx = null as unknown as number;
-            d.fy = null as unknown as number;
-          }) as any
-      );
+            if (!event.active) sim.alphaTarget(0);
+            if (!pinRef.current) {
+              // release fixed position so it rejoins the pack
+              d.fx = null;
+              d.fy = null;
+            }
+            markPinned(
+              d3
+                .select<SVGGElement, Node>(this)
+                .select<SVGCircleElement>("circle")
+            );
+          })
+      )
+      .on("dblclick", function (_event, d) {
+        if (d.fx == null) return;
+        d.fx = d.fy = null; // unpin
+        markPinned(
+          d3.select<SVGGElement, Node>(this).select<SVGCircleElement>("circle")
+        );
+        sim.alpha(0.3).restart();
+      });
+    markPinned(nodeG.select("circle"));
 
     nodeG
-      .append("circle")
-      .attr("r", (d: any) => d.r)
-      .attr("fill", (d: any) => color(d.source))
-      .attr("fill-opacity", 0.9)
-      .attr("stroke", "rgba(255,255,255,0.22)")
-      .attr("stroke-width", 1.2);
+      .select("circle")
+      .transition()
+      .duration(TRANSITION_MS)
+      .attr("r", (d) => d.r)
+      .attr("fill", (d) =>
+        color(groupBy === "hierarchy" ? d.group : (d.source ?? "Unknown"))
+      );
 
     nodeG
-      .append("text")
-      .attr("text-anchor", "middle")
-      .attr("dy", "0.35em")
-      .attr("pointer-events", "none")
-      .attr("fill", "#fff")
-      .attr("font-weight", 600)
-      .attr("font-size", (d: any) => Math.max(10, Math.min(16, d.r / 3)))
-      .style("filter", "drop-shadow(0 1px 1px rgba(0,0,0,0.65))")
-      .text((d: any) => (d.r >= 13 ? d.label : "")); // hide labels on tiny bubbles
+      .select("text")
+      .attr("font-size", (d) => Math.max(10, Math.min(16, d.r / 3)))
+      .text((d) => (d.r >= 13 ? d.label : "")); // hide labels on tiny bubbles
+
+    // Titles above each cluster
+    const titles = svg
+      .select("g.titles")
+      .selectAll<SVGTextElement, Cluster>("text.title")
+      .data(shown, (c) => c.id)
+      .join(
+        (enter) =>
+          enter
+            .append("text")
+            .attr("class", "title")
+            .attr("text-anchor", "middle")
+            .attr("fill", "#e3e7ef")
+            .attr("font-size", LABEL_SIZE)
+            .style("filter", "drop-shadow(0 1px 1px rgba(0,0,0,0.65))")
+            .call(fadeIn),
+        (update) => update,
+        (exit) => exit.call(fadeOut)
+      )
+      .attr("font-weight", (c) => (c.depth === 0 ? 700 : 500));
 
     // Position updater
     const ticked = () => {
-      nodeG.attr("transform", (d: any) => `translate(${d.x!},${d.y!})`);
+      nodeG.attr("transform", (d) => `translate(${d.x!},${d.y!})`);
+      // without outlines, titles sit on the cluster's enclosing circle
+      const shapes = shown.map((c) =>
+        clusterOutline(
+          c.members.map((n) => ({ x: n.x!, y: n.y!, r: n.r })),
+          outline === "none" ? "circle" : outline,
+          c.pad
+        )
+      );
+      if (outline !== "none") outlines.attr("d", (_, i) => shapes[i].d);
+      titles
+        .attr("x", (_, i) => shapes[i].x)
+        .attr("y", (_, i) => Math.max(LABEL_SIZE, shapes[i].y - 4))
+        .text((c, i) => fitLabel(c.label, shapes[i].width, LABEL_SIZE));
     };
+    ticked();
 
-    // Simulation
-    const sim = d3
-      .forceSimulation(nodes as any)
+    // Centering & padding walls (keep inside viewport)
+    const padding = 4;
+    sim
+      .nodes(nodes)
       .force(
         "x",
         d3
-          .forceX<Node>((d) =>
-            groupBy === "none" ? width / 2 : xScale(d.group)!
-          )
-          .strength(0.08)
+          .forceX<Node>((d) => targets.get(d.id)![0])
+          .strength(groupBy === "hierarchy" ? 0.12 : 0.08)
+      )
+      .force(
+        "y",
+        d3
+          .forceY<Node>((d) => targets.get(d.id)![1])
+          .strength(groupBy === "hierarchy" ? 0.12 : 0.08)
       )
-      .force("y", d3.forceY<Node>(height / 2).strength(0.08))
       .force(
         "collide",
         d3
@@ -234,26 +517,53 @@ export default function PackedBubbles({
           .radius((d) => d.r + collidePadding)
           .iterations(2)
       )
-      .force("charge", d3.forceManyBody<Node>().strength(0)) // neutral charge; packing comes from collide
-      .alpha(0.9)
-      .alphaDecay(0.05)
-      .on("tick", ticked);
-
-    // Centering & padding walls (keep inside viewport)
-    const padding = 4;
-    sim.on("tick", () => {
-      nodes.forEach((n) => {
-        n.x = Math.max(n.r + padding, Math.min(width - n.r - padding, n.x!));
-        n.y = Math.max(n.r + padding, Math.min(height - n.r - padding, n.y!));
-      });
-      ticked();
-    });
+      .on("tick", () => {
+        nodes.forEach((n) => {
+          n.x = Math.max(n.r + padding, Math.min(width - n.r - padding, n.x!));
+          n.y = Math.max(n.r + padding, Math.min(height - n.r - padding, n.y!));
+        });
+        ticked();
+      })
+      .on("end", () =>
+        onSettleRef.current?.(
+          Object.fromEntries(
+            nodes.map((n) => [
+              n.id,
+              { x: n.x!, y: n.y!, ...(n.fx != null && { pinned: true }) },
+            ])
+          )
+        )
+      );
+    // every bubble placed from `positions`: already settled
+    if (imported && nodes.every((n) => imported[n.id])) sim.stop();
+    else sim.alpha(previous.size ? 0.7 : 0.9).restart();
+  }, [
+    w,
+    seed,
+    positions,
+    nodes,
+    width,
+    height,
+    groups,
+    groupLabels,
+    groupBy,
+    color,
+    clustering,
+    outline,
+    collidePadding,
+  ]);
 
-    // Cleanup
-    return () => {
-      sim.stop();
-    };
-  }, [nodes, width, height, groups, groupBy, color, xScale, collidePadding]);
+  const releaseAll = () => {
+    const sim = simRef.current;
+    if (!sim) return;
+    for (const n of sim.nodes()) n.fx = n.fy = null;
+    markPinned(
+      d3
+        .select(svgRef.current)
+        .selectAll<SVGCircleElement, Node>("g.node circle")
+    );
+    sim.alpha(0.3).restart();
+  };
 
   return (
     <div
@@ -267,7 +577,39 @@ export default function PackedBubbles({
         overflow: "hidden",
       }}
     >
-      <svg ref={svgRef} width={width} height={height} />
+      <svg ref={svgRef} width={width} height={height}>
+        <g className="legend" transform="translate(12, 12)" />
+        <g className="outlines" pointerEvents="none" />
+        <g className="nodes" />
+        <g className="titles" pointerEvents="none" />
+      </svg>
+      <div
+        style={{
+          position: "absolute",
+          top: 10,
+          right: 12,
+          display: "flex",
+          gap: 4,
+          fontSize: 12,
+          color: "#e3e7ef",
+        }}
+      >
+        <button
+          onClick={() => setPinning((p) => !p)}
+          aria-pressed={pinning}
+          style={{
+            ...button,
+            background: pinning
+              ? "rgba(255,255,255,0.22)"
+              : "rgba(255,255,255,0.08)",
+          }}
+        >
+          Pin dragged
+        </button>
+        <button onClick={releaseAll} style={button}>
+          Release all
+        </button>
+      </div>
       <div
         style={{
           position: "absolute",
@@ -278,8 +620,18 @@ export default function PackedBubbles({
           color: "#e3e7ef",
         }}
       >
-        Drag bubbles • Groups: <b>{groupBy}</b>
+        Drag bubbles{pinning && " to pin them, double-click to release"} •
+        Groups: <b>{groupBy}</b>
       </div>
     </div>
   );
 }
+
+const button: React.CSSProperties = {
+  border: "1px solid #3a4157",
+  background: "rgba(255,255,255,0.08)",
+  color: "inherit",
+  borderRadius: 8,
+  padding: "2px 8px",
+  cursor: "pointer",
+};
@@ -0,0 +1,361 @@
+"use client";
+
+import React, { useMemo, useRef } from "react";
+import { HierarchyRectangularNode } from "d3-hierarchy";
+import { arc as d3Arc } from "d3";
+import {
+  FlatItem,
+  TreeNode,
+  HierarchyIssue,
+  NestedItem,
+  nestFlatToTree,
+  flattenNested,
+} from "@/lib/hierarchy";
+import { useRemoteHierarchy } from "@/lib/useRemoteHierarchy";
+import {
+  HierarchyNavigationProps,
+  useHierarchyNavigation,
+} from "@/lib/useHierarchyNavigation";
+import { categoryColor, colorKeys } from "@/lib/hierarchyColors";
+import { Aggregation, formatMeasure, measureLabel } from "@/lib/measures";
+import { useMeasures } from "@/lib/useMeasures";
+import { useHierarchySearch } from "@/lib/useHierarchySearch";
+import {
+  PartitionKind,
+  TREEMAP_HEADER,
+  computePartitionLayout,
+  fitLabel,
+} from "@/lib/partitionLayout";
+import { TREEITEM_FOCUS_CSS, useRovingTree } from "@/lib/useRovingTree";
+import HierarchyBreadcrumb from "@/components/HierarchyBreadcrumb";
+import HierarchyIssuesPanel from "@/components/HierarchyIssuesPanel";
+import HierarchyLoadStatus from "@/components/HierarchyLoadStatus";
+import HierarchySearch, { SELECTED_STROKE } from "@/components/HierarchySearch";
+import MeasureControls from "@/components/MeasureControls";
+
+type Cell = HierarchyRectangularNode<TreeNode>;
+
+// ---------- Types ----------
+export type PartitionChartProps = HierarchyNavigationProps & {
+  kind: PartitionKind;
+  data?: FlatItem[];
+  tree?: NestedItem | NestedItem[]; // pre-nested alternative to `data`
+  dataUrl?: string; // fetch rows (FlatItem[] or nested JSON) instead
+  refreshInterval?: number; // ms between background refetches of dataUrl
+  sizeBy?: string; // initial metric for cell area: "value" or a measure name
+  aggregation?: Aggregation; // initial rollup shown for parent cells
+  searchFields?: string[]; // node fields the search box matches (default name)
+  levels?: number; // generations below the focus (default: treemap 2, else 3)
+  padding?: number; // px between cells (treemap / icicle)
+  bg?: string;
+};
+
+// ---------- Utilities ----------
+type AnyRef<T> = React.RefObject<T | null> | React.MutableRefObject<T | null>;
+function useResizeObserver<T extends HTMLElement>(
+  ref: AnyRef<T>
+): { w: number; h: number } {
+  const [size, setSize] = React.useState({ w: 0, h: 0 });
+  React.useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const obs = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        const { width, height } = entry.contentRect;
+        setSize({ w: width, h: height });
+      }
+    });
+    obs.observe(el);
+    return () => obs.disconnect();
+  }, [ref]);
+  return size;
+}
+
+const HEADER_H = 48; // breadcrumb bar
+const HINT_H = 28; // help line at the bottom
+const FONT_SIZE = 12;
+
+const sunburstArc = d3Arc<Cell>()
+  .startAngle((d) => d.x0)
+  .endAngle((d) => d.x1)
+  .innerRadius((d) => d.y0)
+  .outerRadius((d) => Math.max(d.y0, d.y1 - 1))
+  .padAngle((d) => Math.min((d.x1 - d.x0) / 2, 0.004))
+  .padRadius(100);
+
+/** Label (already fitted) and where it goes, in cell coordinates */
+function labelOf(d: Cell, kind: PartitionKind, isRoot: boolean) {
+  const w = d.x1 - d.x0;
+  const h = d.y1 - d.y0;
+  if (kind === "sunburst") {
+    if (isRoot)
+      return { text: fitLabel(d.data.name, 2 * d.y1 - 12, FONT_SIZE) };
+    const r = (d.y0 + d.y1) / 2;
+    if ((d.x1 - d.x0) * r < FONT_SIZE + 2) return null; // arc too thin
+    const deg = (((d.x0 + d.x1) / 2) * 180) / Math.PI;
+    return {
+      text: fitLabel(d.data.name, h - 6, FONT_SIZE),
+      transform: `rotate(${deg - 90}) translate(${r},0) rotate(${deg < 180 ? 0 : 180})`,
+    };
+  }
+  if (h < FONT_SIZE + 4) return null;
+  // treemap branches: in their header strip; everything else: centered
+  const inHeader = kind === "treemap" && !!d.children;
+  return {
+    text: fitLabel(d.data.name, w - 8, FONT_SIZE),
+    x: d.x0 + 4,
+    y: inHeader ? d.y0 + TREEMAP_HEADER / 2 : d.y0 + h / 2,
+    anchor: "start" as const,
+  };
+}
+
+/**
+ * Space-filling hierarchy chart (see Treemap, Icicle, Sunburst): the
+ * focus node and `levels` generations below it, sized by the selected
+ * measure and colored by top-level branch like the bubble charts.
+ * - click a branch to drill into it; click the root row / center disc (or
+ *   Up) to drill out
+ * - same search, measure controls, breadcrumb and keyboard tree as the
+ *   bubble charts
+ */
+export default function PartitionChart({
+  kind,
+  data,
+  tree: nested,
+  dataUrl,
+  refreshInterval,
+  sizeBy,
+  aggregation,
+  searchFields,
+  levels = kind === "treemap" ? 2 : 3,
+  padding = 1,
+  bg = "#0b1220",
+  ...navProps
+}: PartitionChartProps) {
+  const remote = useRemoteHierarchy(dataUrl, { refreshInterval });
+  const { tree, issues } = useMemo(() => {
+    const issues: HierarchyIssue[] = [];
+    const items = dataUrl
+      ? (remote.items ?? [])
+      : nested
+        ? flattenNested(nested)
+        : (data ?? []);
+    return { tree: nestFlatToTree(items, issues), issues };
+  }, [data, nested, dataUrl, remote.items]);
+  const measures = useMeasures(tree, { sizeBy, aggregation });
+  const search = useHierarchySearch(tree, searchFields);
+  const nav = useHierarchyNavigation(tree, navProps);
+  const { focusNode, breadcrumb, canDrillDown } = nav;
+  const color = useMemo(categoryColor, []);
+  const topOf = useMemo(() => colorKeys(tree), [tree]);
+
+  // container & responsive sizing
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { w, h } = useResizeObserver(containerRef);
+  const width = Math.max(320, w || 900);
+  const height = Math.max(240, (h || 600) - HEADER_H - HINT_H);
+
+  const root = useMemo(
+    () =>
+      computePartitionLayout(focusNode, kind, width, height, {
+        sizes: measures.sizes,
+        depth: levels,
+        padding,
+      }),
+    [focusNode, kind, width, height, measures.sizes, levels, padding]
+  );
+  // treemap: the root is the whole area, so only its descendants show
+  const cells = useMemo(() => root.descendants().slice(1), [root]);
+
+  const drillUp = () => {
+    if (breadcrumb.length) nav.drillUp();
+  };
+  const cellProps = (d: Cell) =>
+    nav.getNodeProps(d.data, "main", (e) => {
+      e.stopPropagation();
+      if (d === root) drillUp();
+      else if (canDrillDown(d.data)) nav.drillDown(d.data);
+    });
+
+  // keyboard: roving focus + ARIA tree over the cells below the root
+  const treeNav = useRovingTree(
+    useMemo(
+      () =>
+        cells.map((d) => ({
+          id: d.data.id,
+          parentId: d.depth > 1 ? d.parent!.data.id : null,
+          level: d.depth,
+          branch: canDrillDown(d.data),
+        })),
+      [cells, canDrillDown]
+    ),
+    {
+      onEnter: (id) => {
+        const d = cells.find((c) => c.data.id === id);
+        if (d && canDrillDown(d.data)) nav.drillDown(d.data);
+      },
+      onBack: () => {
+        if (!breadcrumb.length) return;
+        nav.drillUp();
+        return focusNode.id; // keep the cell we drilled out of
+      },
+      focusKey: nav.focusId,
+    }
+  );
+
+  const renderCell = (d: Cell, isRoot = false) => {
+    const selected = search.selectedId === d.data.id;
+    const label = labelOf(d, kind, isRoot);
+    const style = {
+      fill: String(color(topOf.get(d.data.id) ?? "root")),
+      fillOpacity: isRoot ? 0.35 : d.children ? 0.78 : 0.9,
+      stroke: selected ? SELECTED_STROKE : "rgba(255,255,255,0.18)",
+      strokeWidth: selected ? 3 : 1.2,
+    };
+    return (
+      <g
+        key={d.data.id}
+        style={{
+          opacity: search.isDimmed(d.data.id) ? 0.25 : 1,
+          cursor: isRoot
+            ? breadcrumb.length
+              ? "pointer"
+              : "default"
+            : canDrillDown(d.data)
+              ? "pointer"
+              : "default",
+        }}
+        {...cellProps(d)}
+        {...(isRoot ? {} : treeNav.getItemProps(d.data.id))}
+        aria-label={d.data.name}
+      >
+        {kind === "sunburst" ? (
+          <path d={sunburstArc(d) ?? undefined} {...style} />
+        ) : (
+          <rect
+            x={d.x0}
+            y={d.y0}
+            width={Math.max(0, d.x1 - d.x0)}
+            height={Math.max(0, d.y1 - d.y0)}
+            {...style}
+          />
+        )}
+        {label?.text && (
+          <text
+            x={label.x}
+            y={label.y}
+            transform={label.transform}
+            textAnchor={label.anchor ?? "middle"}
+            dy="0.35em"
+            style={{
+              pointerEvents: "none",
+              fill: "#fff",
+              fontSize: FONT_SIZE,
+              fontWeight: 600,
+              filter: "drop-shadow(0 1px 1px rgba(0,0,0,0.7))",
+            }}
+          >
+            {label.text}
+          </text>
+        )}
+        <title>
+          {`${d.data.name}: ${measureLabel(measures.sizeBy, measures.aggregation)} = ${formatMeasure(measures.sizes.get(d.data.id) ?? 0)}`}
+        </title>
+      </g>
+    );
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        width: "100%",
+        height: "100%",
+        background: bg,
+        color: "#e3e7ef",
+        position: "relative",
+        overflow: "hidden",
+        borderRadius: 12,
+      }}
+    >
+      {/* Header / Breadcrumb */}
+      <div
+        style={{
+          position: "absolute",
+          inset: "0 0 auto 0",
+          padding: "10px 14px",
+          display: "flex",
+          alignItems: "center",
+          gap: 8,
+          zIndex: 2,
+        }}
+      >
+        <HierarchyBreadcrumb breadcrumb={breadcrumb} onUp={drillUp} />
+        <HierarchySearch
+          search={search}
+          onPick={(r) => nav.reveal(r.node)}
+          style={{ marginLeft: "auto" }}
+        />
+        <MeasureControls
+          metrics={measures.metrics}
+          sizeBy={measures.sizeBy}
+          aggregation={measures.aggregation}
+          onSizeByChange={measures.setSizeBy}
+          onAggregationChange={measures.setAggregation}
+        />
+      </div>
+
+      <HierarchyIssuesPanel issues={issues} />
+      <HierarchyLoadStatus remote={remote} hasData={!!remote.items} />
+
+      <svg
+        width={width}
+        height={height}
+        style={{ display: "block", marginTop: HEADER_H }}
+      >
+        {/* background: drill out */}
+        <rect
+          x={0}
+          y={0}
+          width={width}
+          height={height}
+          fill="transparent"
+          onClick={drillUp}
+        />
+        <g
+          transform={
+            kind === "sunburst"
+              ? `translate(${width / 2},${height / 2})`
+              : undefined
+          }
+        >
+          {kind !== "treemap" && renderCell(root, true)}
+          <g role="tree" aria-label={focusNode.name}>
+            {cells.map((d) => renderCell(d))}
+          </g>
+        </g>
+      </svg>
+
+      {/* small help hint */}
+      <div
+        style={{
+          position: "absolute",
+          left: 12,
+          bottom: 8,
+          opacity: 0.75,
+          fontSize: 12,
+        }}
+      >
+        Click a cell to drill in;{" "}
+        {kind === "icicle"
+          ? "click the top row or Up"
+          : kind === "sunburst"
+            ? "click the center or Up"
+            : "Up"}{" "}
+        goes back. Keyboard: arrows move, Enter drills in, Backspace goes up.
+      </div>
+
+      <style>{TREEITEM_FOCUS_CSS}</style>
+    </div>
+  );
+}
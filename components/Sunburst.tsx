@@ -0,0 +1,13 @@
+"use client";
+
+import PartitionChart, {
+  PartitionChartProps,
+} from "@/components/PartitionChart";
+
+/**
+ * Sunburst: rings of generations around the focus, angle ∝ size; the
+ * center disc drills out (see PartitionChart for the props).
+ */
+export default function Sunburst(props: Omit<PartitionChartProps, "kind">) {
+  return <PartitionChart {...props} kind="sunburst" />;
+}
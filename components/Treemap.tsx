@@ -0,0 +1,13 @@
+"use client";
+
+import PartitionChart, {
+  PartitionChartProps,
+} from "@/components/PartitionChart";
+
+/**
+ * Squarified treemap: nested rectangles with area ∝ size, the easiest
+ * encoding for comparing siblings (see PartitionChart for the props).
+ */
+export default function Treemap(props: Omit<PartitionChartProps, "kind">) {
+  return <PartitionChart {...props} kind="treemap" />;
+}
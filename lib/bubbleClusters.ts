@@ -0,0 +1,183 @@
+import {
+  hierarchy as d3Hierarchy,
+  pack as d3Pack,
+  packEnclose,
+  packSiblings,
+} from "d3-hierarchy";
+import { curveCatmullRomClosed, line, polygonHull, scalePoint } from "d3";
+import type { TreeNode } from "@/lib/hierarchy";
+import { shapePath } from "@/lib/shapeMorph";
+
+/** How group centers are spread over the view */
+export type GroupPlacement = "row" | "grid" | "pack";
+
+/** Shape drawn around each group */
+export type ClusterOutline = "none" | "hull" | "circle";
+
+/** Outline padding around the bubbles, per level of nesting inside */
+export const OUTLINE_GAP = 6;
+
+/** Points sampled around each bubble for hull outlines */
+const HULL_STEPS = 12;
+
+type Point = [number, number];
+type Circle = { x: number; y: number; r: number };
+
+/** A group to place and the radius its bubbles need */
+export type GroupFootprint = { key: string; r: number };
+
+/**
+ * Bubbles (by id) outlined and labelled together. `pad` grows with the
+ * nesting inside, so outer outlines enclose inner ones.
+ */
+export type BubbleCluster = {
+  id: string;
+  label: string;
+  depth: number; // 0 for a top-level group
+  pad: number;
+  members: string[];
+};
+
+/** Radius a loose pack (~80% density) of these bubbles needs */
+export function groupRadius(radii: number[], padding: number) {
+  const area = radii.reduce((s, r) => s + (r + padding) ** 2, 0);
+  return Math.sqrt(area / 0.8);
+}
+
+/**
+ * Centers for `groups` in a width × height view.
+ * - "row": along the x axis, vertically centered
+ * - "grid": cells of a grid shaped like the view
+ * - "pack": footprints packed as circles around the middle
+ * `scale` (≤ 1) is how much the groups' contents shrink to fit ("row"
+ * never shrinks).
+ */
+export function placeGroups(
+  groups: GroupFootprint[],
+  placement: GroupPlacement,
+  width: number,
+  height: number,
+  gap = 2 * OUTLINE_GAP
+): { centers: Map<string, Point>; scale: number } {
+  const centers = new Map<string, Point>();
+  const n = groups.length;
+  if (!n) return { centers, scale: 1 };
+
+  if (placement === "row") {
+    const x = scalePoint<string>()
+      .domain(groups.map((g) => g.key))
+      .range([Math.max(80, width * 0.1), Math.min(width - 80, width * 0.9)]);
+    for (const g of groups) centers.set(g.key, [x(g.key)!, height / 2]);
+    return { centers, scale: 1 };
+  }
+
+  if (placement === "grid") {
+    const cols = Math.max(
+      1,
+      Math.min(n, Math.round(Math.sqrt((n * width) / height)))
+    );
+    const rows = Math.ceil(n / cols);
+    const [cw, ch] = [width / cols, height / rows];
+    groups.forEach((g, i) =>
+      centers.set(g.key, [
+        ((i % cols) + 0.5) * cw,
+        (Math.floor(i / cols) + 0.5) * ch,
+      ])
+    );
+    const biggest = Math.max(...groups.map((g) => g.r));
+    return {
+      centers,
+      scale: Math.min(1, Math.min(cw, ch) / 2 / (biggest + gap)),
+    };
+  }
+
+  const circles = packSiblings(groups.map((g) => ({ r: g.r + gap })));
+  const e = packEnclose(circles);
+  const scale = Math.min(1, Math.min(width, height) / 2 / e.r);
+  groups.forEach((g, i) =>
+    centers.set(g.key, [
+      width / 2 + (circles[i].x - e.x) * scale,
+      height / 2 + (circles[i].y - e.y) * scale,
+    ])
+  );
+  return { centers, scale };
+}
+
+type Slot = { node: TreeNode; children?: Slot[] };
+
+/**
+ * Nested circle packing of a branch: each node's children form a cluster
+ * around it (the parent bubble is packed first, so it sits near the
+ * middle), recursively.
+ * - `offsets`: bubble id → position relative to the branch center
+ * - `r`: radius of the branch including its outline
+ * - `clusters`: one per node with children, outermost first
+ */
+export function nestedCluster(
+  branch: TreeNode,
+  radiusOf: (n: TreeNode) => number,
+  gap = OUTLINE_GAP
+) {
+  const slotOf = (n: TreeNode): Slot =>
+    n.children?.length
+      ? { node: n, children: [{ node: n }, ...n.children.map(slotOf)] }
+      : { node: n };
+  const root = d3Pack<Slot>()
+    .radius((d) => radiusOf(d.data.node))
+    // room for both neighbours' outlines between sibling clusters
+    .padding((d) => gap * (2 * d.height - 1))(
+    d3Hierarchy(slotOf(branch), (s) => s.children)
+  );
+
+  const offsets = new Map<string, Point>();
+  for (const leaf of root.leaves())
+    offsets.set(leaf.data.node.id, [leaf.x - root.x, leaf.y - root.y]);
+  const clusters: BubbleCluster[] = root
+    .descendants()
+    .filter((d) => d.children)
+    .map((d) => ({
+      id: d.data.node.id,
+      label: d.data.node.name,
+      depth: d.depth,
+      pad: gap * d.height,
+      members: d.leaves().map((l) => l.data.node.id),
+    }));
+  return { r: root.r + gap * root.height, offsets, clusters };
+}
+
+const hullLine = line().curve(curveCatmullRomClosed);
+
+/**
+ * Outline around the (current) member circles, `pad` px out, and the top
+ * point where its label goes; `width` is the room for that label.
+ */
+export function clusterOutline(
+  circles: Circle[],
+  kind: Exclude<ClusterOutline, "none">,
+  pad: number
+) {
+  if (kind === "circle") {
+    const e = packEnclose(circles.map((c) => ({ ...c, r: c.r + pad })));
+    return {
+      d: shapePath({ kind: "circle", cx: e.x, cy: e.y, r: e.r }),
+      x: e.x,
+      y: e.y - e.r,
+      width: 2 * e.r,
+    };
+  }
+  const points = circles.flatMap((c) =>
+    Array.from({ length: HULL_STEPS }, (_, i): Point => {
+      const a = (2 * Math.PI * i) / HULL_STEPS;
+      return [c.x + (c.r + pad) * Math.cos(a), c.y + (c.r + pad) * Math.sin(a)];
+    })
+  );
+  const hull = polygonHull(points)!;
+  const top = hull.reduce((a, b) => (b[1] < a[1] ? b : a));
+  const xs = hull.map((p) => p[0]);
+  return {
+    d: hullLine(hull) ?? "",
+    x: top[0],
+    y: top[1],
+    width: Math.max(...xs) - Math.min(...xs),
+  };
+}
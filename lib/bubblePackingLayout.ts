@@ -0,0 +1,451 @@
+import type { TreeNode } from "@/lib/hierarchy";
+import { rollup } from "@/lib/measures";
+
+export type PlacedBubble = {
+  id: string;
+  name: string;
+  depth: number; // 0 parent, 1 child, 2 grandchild, 3+ deeper generations
+  data: TreeNode;
+  r: number;
+  x: number;
+  y: number;
+  parentId?: string;
+};
+
+export type BubblePackingLayout = {
+  nodes: PlacedBubble[];
+  side: number;
+  scale: number; // < 1 when the layout was shrunk to fit in `side`
+};
+
+/**
+ * Where grandchildren go around their child:
+ * - "ring": a full circle around it
+ * - "arc": an arc on the outer side only, clear of the parent and of
+ *   neighbouring children
+ */
+export type BubbleArrangement = "ring" | "arc";
+
+const clamp = (v: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, v));
+
+/** Deepest generation the overlay can show (see `overlayDepth`) */
+export const MAX_OVERLAY_DEPTH = 5;
+
+const GENERATION_SHRINK = 0.7; // radius factor per generation past grandchildren
+const MIN_BUBBLE_R = 3;
+
+type Circle = { x: number; y: number; r: number };
+
+/**
+ * Uniform grid of placed circles, so overlap checks only look at
+ * neighbours (deep overlays reach thousands of bubbles)
+ */
+function circleIndex<C extends Circle>(cell: number) {
+  const cells = new Map<number, C[]>();
+  const span = (c: Circle, pad: number, visit: (key: number) => void) => {
+    const x0 = Math.floor((c.x - c.r - pad) / cell);
+    const x1 = Math.floor((c.x + c.r + pad) / cell);
+    const y0 = Math.floor((c.y - c.r - pad) / cell);
+    const y1 = Math.floor((c.y + c.r + pad) / cell);
+    for (let i = x0; i <= x1; i++)
+      for (let j = y0; j <= y1; j++) visit(i * 0x100000 + j);
+  };
+  /** Added circles (other than `c`) closer than `gap` to `c` */
+  const near = (c: Circle, gap: number) => {
+    const found: C[] = [];
+    span(c, gap, (key) => {
+      for (const o of cells.get(key) ?? [])
+        if (o !== c && Math.hypot(c.x - o.x, c.y - o.y) < o.r + c.r + gap)
+          if (!found.includes(o)) found.push(o);
+    });
+    return found;
+  };
+  return {
+    add(c: C) {
+      span(c, 0, (key) => {
+        const list = cells.get(key);
+        if (list) list.push(c);
+        else cells.set(key, [c]);
+      });
+    },
+    near,
+    hits: (c: Circle, gap: number) => near(c, gap).length > 0,
+  };
+}
+
+const RESOLVE_PASSES = 120;
+const RESOLVE_SETTLED = 0.5; // px: a pass pushing less than this is done
+
+/**
+ * Push overlapping bubbles apart (in place) until every pair is at least
+ * `gap` apart. Each pair splits the push by area, so small bubbles give
+ * way to big ones and the arcs keep their shape; `nodes[0]` (the parent)
+ * never moves. Whatever still touches once the passes settle (or after
+ * RESOLVE_PASSES) is shrunk until clear, but not below `minRadius`: pairs
+ * too close for that (e.g. centers that never separated) are first moved
+ * apart, the smaller bubble giving way.
+ */
+function resolveOverlaps(
+  nodes: PlacedBubble[],
+  gap: number,
+  minRadius: number
+) {
+  // Cells sized for the typical bubble; big ones just span more cells
+  const cell = Math.max(
+    gap,
+    (4 * nodes.reduce((sum, n) => sum + n.r, 0)) / nodes.length
+  );
+  const [anchor] = nodes;
+  // Direction from a to b, split along b's angle from the parent if same spot
+  const apart = (
+    a: PlacedBubble,
+    b: PlacedBubble
+  ): [number, number, number] => {
+    const [dx, dy] = [b.x - a.x, b.y - a.y];
+    const d = Math.hypot(dx, dy);
+    if (d >= 1e-6) return [dx, dy, d];
+    const t = Math.atan2(b.y - anchor.y, b.x - anchor.x) || nodes.indexOf(b);
+    return [Math.cos(t), Math.sin(t), 1];
+  };
+  for (let pass = 0; pass < RESOLVE_PASSES; pass++) {
+    const index = circleIndex<PlacedBubble>(cell);
+    nodes.forEach(index.add);
+    let maxPush = 0;
+    for (const a of nodes) {
+      for (const b of index.near(a, gap)) {
+        const [dx, dy, d] = apart(a, b);
+        const push = a.r + b.r + gap - d;
+        if (push <= 0) continue;
+        const share =
+          a === anchor
+            ? 0
+            : b === anchor
+              ? 1
+              : b.r ** 2 / (a.r ** 2 + b.r ** 2);
+        a.x -= (dx / d) * push * share;
+        a.y -= (dy / d) * push * share;
+        b.x += (dx / d) * push * (1 - share);
+        b.y += (dy / d) * push * (1 - share);
+        maxPush = Math.max(maxPush, push);
+      }
+    }
+    if (maxPush < RESOLVE_SETTLED) break;
+  }
+
+  const floor = new Map(nodes.map((n) => [n, Math.min(n.r, minRadius)]));
+  for (let pass = 0; pass < RESOLVE_PASSES; pass++) {
+    const index = circleIndex<PlacedBubble>(cell);
+    nodes.forEach(index.add);
+    let moved = false;
+    for (const a of nodes)
+      for (const b of index.near(a, gap)) {
+        const [dx, dy, d] = apart(a, b);
+        const [fa, fb] = [floor.get(a)!, floor.get(b)!];
+        const room = d - gap; // for both radii
+        if (room >= a.r + b.r) continue;
+        if (room >= fa + fb) {
+          // shrink both toward their floor, in proportion to their slack
+          const t = (a.r + b.r - room) / (a.r - fa + (b.r - fb));
+          a.r -= (a.r - fa) * t;
+          b.r -= (b.r - fb) * t;
+          continue;
+        }
+        // too close even at minRadius: move the smaller one out
+        const need = fa + fb + gap;
+        const aMoves = b === anchor || (a !== anchor && a.r < b.r);
+        const [m, o, sign] = aMoves ? [a, b, -1] : [b, a, 1];
+        m.x = o.x + (sign * dx * need) / d;
+        m.y = o.y + (sign * dy * need) / d;
+        moved = true;
+      }
+    if (!moved) return;
+  }
+  // still crowded after RESOLVE_PASSES: shrink regardless of minRadius
+  const index = circleIndex<PlacedBubble>(cell);
+  nodes.forEach(index.add);
+  for (const a of nodes)
+    for (const b of index.near(a, gap)) {
+      const k =
+        Math.max(0, Math.hypot(a.x - b.x, a.y - b.y) - gap) / (a.r + b.r);
+      a.r *= k;
+      b.r *= k;
+    }
+}
+
+/**
+ * Scale and center `nodes` (in place) into a side × side square with
+ * `margin` to spare, if they don't fit already. Returns the scale used.
+ */
+function fitToSide(nodes: PlacedBubble[], side: number, margin: number) {
+  const x0 = Math.min(...nodes.map((n) => n.x - n.r));
+  const x1 = Math.max(...nodes.map((n) => n.x + n.r));
+  const y0 = Math.min(...nodes.map((n) => n.y - n.r));
+  const y1 = Math.max(...nodes.map((n) => n.y + n.r));
+  if (
+    x0 >= margin &&
+    y0 >= margin &&
+    x1 <= side - margin &&
+    y1 <= side - margin
+  )
+    return 1;
+  const scale = Math.min(1, (side - 2 * margin) / Math.max(x1 - x0, y1 - y0));
+  const dx = side / 2 - ((x0 + x1) / 2) * scale;
+  const dy = side / 2 - ((y0 + y1) / 2) * scale;
+  for (const n of nodes) {
+    n.x = n.x * scale + dx;
+    n.y = n.y * scale + dy;
+    n.r *= scale;
+  }
+  return scale;
+}
+
+export type BubblePackingOptions = {
+  arrangement?: BubbleArrangement;
+  overlayDepth?: number; // deepest generation shown, 2–5 (default 2)
+  sizes?: Map<string, number>; // node id -> area weight (see rollup())
+  minRadius?: number; // smallest child / grandchild bubble
+  maxRadius?: number; // largest child bubble
+};
+
+/**
+ * Bubble PACKING layout (parent center, children around, grandchildren
+ * around each child). No nesting—everything is "beside".
+ * - children and grandchildren share one area scale: r ∝ √size (`sizes`,
+ *   default: rolled-up value), the largest child at `maxRadius`, none
+ *   below `minRadius`; ring and arc lengths follow the actual radii
+ * - `overlayDepth` (2–5): deepest generation shown; generations past the
+ *   grandchildren go on outward arcs around their parent bubble, each one
+ *   GENERATION_SHRINK smaller than the last
+ * - those deeper bubbles are nudged outward (then shrunk) until they clear
+ *   every bubble placed before them
+ * - a final pass resolves any overlap left anywhere (see resolveOverlaps)
+ *   and, if the result spills out of `side`, scales it down to fit;
+ *   `scale` reports by how much
+ */
+export function computeBubblePackingLayout(
+  focus: TreeNode,
+  side: number,
+  {
+    arrangement = "ring",
+    overlayDepth = 2,
+    sizes = rollup(focus),
+    minRadius = clamp(side * 0.012, 5, 10),
+    maxRadius = clamp(side * 0.12, 24, 110),
+  }: BubblePackingOptions = {}
+): BubblePackingLayout {
+  const cx = side / 2;
+  const cy = side / 2;
+
+  const children = (focus.children || []) as TreeNode[];
+
+  // Radii tuning (adjust to taste)
+  const rParent = clamp(side * 0.16, 40, 120);
+
+  // Area ∝ size, scaled so the largest child gets maxRadius
+  const size = (d: TreeNode) => Math.max(0, sizes.get(d.id) ?? 0);
+  const largest = children.reduce((m, c) => Math.max(m, size(c)), 0);
+  const k = largest > 0 ? maxRadius / Math.sqrt(largest) : 0;
+  const radiusOf = (d: TreeNode) =>
+    clamp(k * Math.sqrt(size(d)), minRadius, maxRadius);
+
+  const childInfo = children.map((c) => ({ node: c, r: radiusOf(c) }));
+
+  const gapC = clamp(side * 0.008, 6, 16);
+  const circumferenceNeeded = childInfo.reduce(
+    (acc, it) => acc + (2 * it.r + gapC),
+    0
+  );
+  const baseRing =
+    rParent + (childInfo.reduce((m, it) => Math.max(m, it.r), 0) || 0) + 28;
+  const ringR = Math.max(baseRing, circumferenceNeeded / (2 * Math.PI)); // ensure no overlap around ring
+  const ringCirc = 2 * Math.PI * ringR;
+
+  // Place children around the parent by arc-length proportion (bigger radius → bigger arc)
+  let theta = 0;
+  type ChildPlaced = PlacedBubble & { angle: number };
+  const placedChildren: ChildPlaced[] = childInfo.map((it) => {
+    const arcLen = 2 * it.r + gapC;
+    const delta = (arcLen / ringCirc) * 2 * Math.PI;
+    const mid = theta + delta / 2;
+    const x = cx + ringR * Math.cos(mid);
+    const y = cy + ringR * Math.sin(mid);
+    theta += delta;
+    return {
+      id: it.node.id,
+      name: it.node.name,
+      depth: 1,
+      data: it.node,
+      r: it.r,
+      x,
+      y,
+      parentId: focus.id,
+      angle: mid, // angle from parent->child (used for outward arc)
+    };
+  });
+
+  const gapG = clamp(side * 0.006, 4, 12);
+  const placedGrandchildren: PlacedBubble[] = [];
+
+  // ---- "arc": grandchildren on an outward arc around each child ----
+  const arcSpan = (150 * Math.PI) / 180; // outward arc (tweak 120–160° for aesthetics)
+  const safety = 6; // padding to avoid touching child/neighbor
+
+  // Quick neighbor lookup to cap ring size so grandkids don't hit adjacent children
+  const childCount = placedChildren.length;
+  function neighborRingCap(ch: ChildPlaced, rG: number) {
+    if (childCount <= 1) return Infinity;
+    const idx = placedChildren.findIndex((p) => p.id === ch.id);
+    const prev = placedChildren[(idx - 1 + childCount) % childCount];
+    const next = placedChildren[(idx + 1) % childCount];
+
+    const distPrev = Math.hypot(ch.x - prev.x, ch.y - prev.y);
+    const distNext = Math.hypot(ch.x - next.x, ch.y - next.y);
+
+    // triangle inequality safe upper bound: ringG <= dist - neighbor.r - rG - safety
+    const capPrev = distPrev - prev.r - rG - safety;
+    const capNext = distNext - next.r - rG - safety;
+    return Math.max(0, Math.min(capPrev, capNext));
+  }
+
+  for (const ch of placedChildren) {
+    const gcNodes = (ch.data.children || []) as TreeNode[];
+    const N = gcNodes.length;
+    if (!N) continue;
+
+    let radii = gcNodes.map(radiusOf);
+    const arcLength = () => radii.reduce((acc, r) => acc + 2 * r + gapG, 0);
+    const largestG = () => Math.max(...radii);
+
+    // Walk the ring (or arc) by arc length: each grandkid takes 2r + gap
+    const placeAlong = (ringG: number, thetaStart: number) => {
+      let along = 0;
+      gcNodes.forEach((gc, i) => {
+        const theta = thetaStart + (along + radii[i] + gapG / 2) / ringG;
+        along += 2 * radii[i] + gapG;
+        placedGrandchildren.push({
+          id: gc.id,
+          name: gc.name,
+          depth: 2,
+          data: gc,
+          r: radii[i],
+          x: ch.x + ringG * Math.cos(theta),
+          y: ch.y + ringG * Math.sin(theta),
+          parentId: ch.id,
+        });
+      });
+    };
+
+    // ---- "ring": grandchildren all around each child ----
+    if (arrangement === "ring") {
+      placeAlong(
+        Math.max(ch.r + largestG() + gapG, arcLength() / (2 * Math.PI)),
+        0
+      );
+      continue;
+    }
+
+    // We want all N grandchildren on an outward arc of length: L = ringG * arcSpan.
+    // Needed arc length (no overlap): Σ(2*rG + gapG). So ringG >= needed / arcSpan.
+    // Lower bound so grandkids don't touch child or parent:
+    // - not touching child: ringG >= ch.r + rG + safety
+    // - parent is always further away on outward side (child is already outside the parent),
+    //   so outward-only arc guarantees we never sit "between" parent & child.
+    let ringGmin = Math.max(arcLength() / arcSpan, ch.r + largestG() + safety);
+
+    // Upper bound so grandkids don't hit neighboring children
+    let ringGmax = neighborRingCap(ch, largestG());
+
+    // If we don't have enough room, try reducing the radii proportionally once
+    // (resolveOverlaps below takes care of whatever still collides)
+    if (ringGmax < ringGmin && isFinite(ringGmax) && ringGmax > 0) {
+      const ratio = clamp(ringGmax / ringGmin, 0.65, 1); // don't shrink below ~55%
+      radii = radii.map((r) => Math.max(Math.min(r, minRadius), r * ratio));
+      ringGmin = Math.max(arcLength() / arcSpan, ch.r + largestG() + safety);
+      ringGmax = neighborRingCap(ch, largestG());
+    }
+
+    // Final ring radius for grandchildren around this child
+    let ringG = Math.max(ringGmin, 0);
+    if (isFinite(ringGmax))
+      ringG = Math.min(ringG, Math.max(ringGmax, ringGmin));
+
+    // Arc center = ch.angle (from parent to child); symmetric placement across the arc
+    placeAlong(ringG, ch.angle - arcLength() / ringG / 2);
+  }
+
+  // Parent at center (depth 0)
+  const parentPlaced: PlacedBubble = {
+    id: focus.id,
+    name: focus.name,
+    depth: 0,
+    data: focus,
+    r: rParent,
+    x: cx,
+    y: cy,
+  };
+
+  // Draw order: parent first (under) → children → grandkids → deeper
+  const nodes = [parentPlaced, ...placedChildren, ...placedGrandchildren];
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  const index = circleIndex(Math.max(gapG, minRadius) * 4);
+  nodes.forEach(index.add);
+
+  // ---- Deeper generations: outward arcs around each bubble ----
+  const maxDepth = clamp(Math.round(overlayDepth), 2, MAX_OVERLAY_DEPTH);
+  let generation = placedGrandchildren;
+  for (let depth = 3; depth <= maxDepth && generation.length; depth++) {
+    const rGen = Math.max(
+      MIN_BUBBLE_R,
+      generation.reduce((m, n) => Math.max(m, n.r), 0) * GENERATION_SHRINK
+    );
+    const gap = gapG * GENERATION_SHRINK ** (depth - 2);
+    const next: PlacedBubble[] = [];
+
+    for (const p of generation) {
+      const kids = (p.data.children || []) as TreeNode[];
+      const N = kids.length;
+      if (!N) continue;
+      // Outward = away from the bubble this one hangs off
+      const from = byId.get(p.parentId!)!;
+      const out = Math.atan2(p.y - from.y, p.x - from.x);
+      const ring = Math.max((N * (2 * rGen + gap)) / arcSpan, p.r + rGen + gap);
+      const step = (2 * rGen + gap) / ring;
+      const start = out - ((N - 1) * step) / 2;
+
+      for (let i = 0; i < N; i++) {
+        const theta = start + i * step;
+        const at = (dist: number, r: number): Circle => ({
+          x: p.x + dist * Math.cos(theta),
+          y: p.y + dist * Math.sin(theta),
+          r,
+        });
+        let c = at(ring, rGen);
+        // Clear of everything so far: push outward, shrinking every few
+        // steps; far enough out nothing is left to hit, so this ends
+        for (let dist = ring, tries = 1; index.hits(c, gap / 2); tries++) {
+          if (tries % 3 === 0 && c.r > MIN_BUBBLE_R)
+            c = at(dist, Math.max(MIN_BUBBLE_R, c.r * 0.85));
+          else c = at((dist += c.r + gap), c.r);
+        }
+        const placed: PlacedBubble = {
+          id: kids[i].id,
+          name: kids[i].name,
+          depth,
+          data: kids[i],
+          ...c,
+          parentId: p.id,
+        };
+        index.add(placed);
+        nodes.push(placed);
+        byId.set(placed.id, placed);
+        next.push(placed);
+      }
+    }
+    generation = next;
+  }
+
+  resolveOverlaps(nodes, gapG / 2, minRadius);
+  const scale = fitToSide(nodes, side, gapG);
+  return { nodes, side, scale };
+}
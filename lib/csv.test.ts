@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseDelimited, parseFlatItemsCsv } from "@/lib/csv";
+
+describe("parseDelimited", () => {
+  it("throws on an empty delimiter instead of looping", () => {
+    expect(() => parseDelimited("a,b\n1,2", "")).toThrow(/empty/);
+  });
+
+  it("splits on a multi-character delimiter", () => {
+    const { records } = parseDelimited("a::b\n1::2", "::");
+    expect(records.map((r) => r.cells)).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+});
+
+describe("parseFlatItemsCsv", () => {
+  it("treats an empty delimiter option as unset", () => {
+    const { items, errors } = parseFlatItemsCsv("name,parent\nA,\nB,A", {
+      delimiter: "",
+    });
+    expect(errors).toEqual([]);
+    expect(items.map((d) => [d.name, d.parent])).toEqual([
+      ["A", undefined],
+      ["B", "A"],
+    ]);
+  });
+});
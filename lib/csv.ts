@@ -0,0 +1,222 @@
+import type { FlatItem } from "@/lib/hierarchy";
+
+// ---------- Types ----------
+type CsvField =
+  | "id"
+  | "name"
+  | "parent"
+  | "parentId"
+  | "level"
+  | "source"
+  | "value";
+
+/** FlatItem field -> header name (case-insensitive) or 0-based column index */
+export type CsvColumnMap = Partial<Record<CsvField, string | number>>;
+
+export type CsvParseOptions = {
+  delimiter?: string; // default: tab if the header row has one, else comma
+  columns?: CsvColumnMap; // default: headers named like the FlatItem fields
+  measures?: (string | number)[]; // extra numeric columns -> FlatItem.measures
+};
+
+export type CsvRowError = {
+  line: number; // 1-based line in the source text (header is line 1)
+  message: string;
+};
+
+export type CsvParseResult = { items: FlatItem[]; errors: CsvRowError[] };
+
+const FIELDS: CsvField[] = [
+  "id",
+  "name",
+  "parent",
+  "parentId",
+  "level",
+  "source",
+  "value",
+];
+
+// ---------- Tokenizer ----------
+
+type CsvRecord = { line: number; cells: string[] };
+
+/**
+ * Split delimited text into records (RFC 4180 quoting):
+ * - fields may be wrapped in double quotes
+ * - "" inside a quoted field is a literal quote
+ * - quoted fields may contain delimiters and newlines
+ * Throws on an empty delimiter.
+ */
+export function parseDelimited(
+  text: string,
+  delimiter: string
+): { records: CsvRecord[]; errors: CsvRowError[] } {
+  if (!delimiter) throw new Error("Delimiter must not be empty");
+  const records: CsvRecord[] = [];
+  const errors: CsvRowError[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    // Skip blank lines
+    if (cells.length > 1 || cells[0].trim() !== "")
+      records.push({ line: recordLine, cells });
+    cells = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (text.startsWith(delimiter, i)) {
+      cells.push(cell);
+      cell = "";
+      i += delimiter.length - 1;
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted)
+    errors.push({ line: recordLine, message: "Unterminated quoted field" });
+  if (cell !== "" || cells.length) endRecord();
+  return { records, errors };
+}
+
+// ---------- FlatItem mapping ----------
+
+function resolveColumns(
+  header: string[],
+  columns: CsvColumnMap | undefined,
+  measures: (string | number)[] = []
+): {
+  index: Partial<Record<CsvField, number>>;
+  measures: { name: string; index: number }[];
+  errors: string[];
+} {
+  const lower = header.map((h) => h.trim().toLowerCase());
+  const find = (ref: string | number) => {
+    const i =
+      typeof ref === "number" ? ref : lower.indexOf(ref.trim().toLowerCase());
+    return i >= 0 && i < header.length ? i : -1;
+  };
+  const index: Partial<Record<CsvField, number>> = {};
+  const errors: string[] = [];
+  for (const field of FIELDS) {
+    const ref = columns?.[field] ?? field;
+    const i = find(ref);
+    if (i >= 0) index[field] = i;
+    else if (columns?.[field] !== undefined)
+      errors.push(`Column "${ref}" for "${field}" not found in header`);
+  }
+  if (index.name === undefined) errors.push('No "name" column');
+
+  const measureCols: { name: string; index: number }[] = [];
+  for (const ref of measures) {
+    const i = find(ref);
+    if (i >= 0) measureCols.push({ name: header[i].trim(), index: i });
+    else errors.push(`Measure column "${ref}" not found in header`);
+  }
+  return { index, measures: measureCols, errors };
+}
+
+/**
+ * Parse CSV/TSV text (first row = header) into FlatItem[].
+ * Bad rows are skipped or partially kept, and reported per line.
+ */
+export function parseFlatItemsCsv(
+  text: string,
+  options: CsvParseOptions = {}
+): CsvParseResult {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  // An empty delimiter counts as unset
+  const delimiter =
+    options.delimiter || (firstLine.includes("\t") ? "\t" : ",");
+  const { records, errors } = parseDelimited(text, delimiter);
+  const items: FlatItem[] = [];
+  if (!records.length) return { items, errors };
+
+  const [header, ...rows] = records;
+  const cols = resolveColumns(header.cells, options.columns, options.measures);
+  if (cols.errors.length) {
+    for (const message of cols.errors)
+      errors.push({ line: header.line, message });
+    if (cols.index.name === undefined) return { items, errors };
+  }
+
+  for (const { line, cells } of rows) {
+    const get = (field: CsvField) => {
+      const i = cols.index[field];
+      const v = i === undefined ? undefined : cells[i]?.trim();
+      return v === "" ? undefined : v;
+    };
+    const report = (message: string) => errors.push({ line, message });
+
+    const name = get("name");
+    if (!name) {
+      report("Missing name; row skipped");
+      continue;
+    }
+    const item: FlatItem = { name };
+    for (const field of ["id", "parent", "parentId", "source"] as const) {
+      const v = get(field);
+      if (v !== undefined) item[field] = v;
+    }
+
+    const level = get("level");
+    if (level !== undefined) {
+      const n = Number(level);
+      if (Number.isInteger(n) && n >= 1) item.level = n;
+      else report(`Level "${level}" for "${name}" is not a positive integer`);
+    }
+    const value = get("value");
+    if (value !== undefined) {
+      const n = Number(value);
+      if (Number.isFinite(n)) item.value = n;
+      else report(`Value "${value}" for "${name}" is not a number`);
+    }
+    for (const m of cols.measures) {
+      const raw = cells[m.index]?.trim();
+      if (!raw) continue;
+      const n = Number(raw);
+      if (Number.isFinite(n)) (item.measures ??= {})[m.name] = n;
+      else
+        report(`Measure "${m.name}" = "${raw}" for "${name}" is not a number`);
+    }
+    items.push(item);
+  }
+  return { items, errors };
+}
+
+/** Read an uploaded file; ".tsv" / ".tab" files default to tab-delimited */
+export async function parseFlatItemsFile(
+  file: Blob & { name?: string },
+  options: CsvParseOptions = {}
+): Promise<CsvParseResult> {
+  const text = await file.text();
+  const isTsv = /\.(tsv|tab)$/i.test(file.name ?? "");
+  return parseFlatItemsCsv(text, {
+    ...options,
+    delimiter: options.delimiter ?? (isTsv ? "\t" : undefined),
+  });
+}
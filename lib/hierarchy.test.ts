@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  FlatItem,
+  HierarchyIssue,
+  ROOT_ID,
+  inferLevels,
+  nestFlatToTree,
+  toFlatItems,
+} from "@/lib/hierarchy";
+
+describe("nestFlatToTree", () => {
+  it("skips a null row and reports it by index", () => {
+    const items = [{ name: "a" }, null, { name: "b", parent: "a" }];
+    const issues: HierarchyIssue[] = [];
+    const tree = nestFlatToTree(items as FlatItem[], issues);
+
+    expect(tree.id).toBe(ROOT_ID);
+    expect(tree.children!.map((n) => n.name)).toEqual(["a"]);
+    expect(tree.children![0].children!.map((n) => n.name)).toEqual(["b"]);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ kind: "invalid-row", row: 1 });
+  });
+
+  it("skips a row without a string name and reports it by index", () => {
+    const items = [{ name: "a" }, { value: 3 }, { name: 7 }];
+    const issues: HierarchyIssue[] = [];
+    const tree = nestFlatToTree(items as FlatItem[], issues);
+
+    expect(tree.children!.map((n) => n.name)).toEqual(["a"]);
+    expect(issues.map((i) => [i.kind, i.row])).toEqual([
+      ["invalid-row", 1],
+      ["invalid-row", 2],
+    ]);
+  });
+
+  it("keeps the input row index in issues after a skipped row", () => {
+    const items = [null, { name: "b", parent: "missing" }];
+    const issues: HierarchyIssue[] = [];
+    nestFlatToTree(items as FlatItem[], issues);
+
+    expect(issues.map((i) => [i.kind, i.row])).toEqual([
+      ["invalid-row", 0],
+      ["missing-parent", 1],
+    ]);
+  });
+});
+
+describe("inferLevels", () => {
+  it("gives skipped rows level 0 and keeps the others aligned", () => {
+    const items = [{ name: "a" }, null, { name: "b", parent: "a" }];
+    expect(inferLevels(items as FlatItem[])).toEqual([1, 0, 2]);
+  });
+});
+
+describe("toFlatItems", () => {
+  it("passes malformed nested nodes through for nesting to report", () => {
+    const json = {
+      name: "root",
+      children: [
+        null,
+        { value: 2, children: [{ name: "lost" }] },
+        { name: "ok" },
+      ],
+    };
+    const issues: HierarchyIssue[] = [];
+    const tree = nestFlatToTree(toFlatItems(json), issues);
+
+    expect(tree.children![0].children!.map((n) => n.name)).toEqual(["ok"]);
+    expect(issues.map((i) => i.kind)).toEqual(["invalid-row", "invalid-row"]);
+  });
+
+  it("ignores a non-array children field", () => {
+    const items = toFlatItems({ name: "a", children: "b" });
+    expect(items.map((d) => d.name)).toEqual(["a"]);
+  });
+
+  it("throws on a payload that is not a hierarchy", () => {
+    expect(() => toFlatItems("nope")).toThrow(/not a hierarchy/);
+  });
+});
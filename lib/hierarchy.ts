@@ -0,0 +1,372 @@
+// ---------- Types ----------
+export type FlatItem = {
+  id?: string; // stable identity; defaults to source + name path
+  name: string;
+  level?: number; // 1-based depth; inferred from the parent chain when omitted
+  parent?: string; // parent name (resolved within the same source first)
+  parentId?: string; // explicit parent id; wins over `parent`
+  source?: string;
+  value?: number; // optional weight (defaults to 1)
+  measures?: Record<string, number>; // named metrics, e.g. revenue, headcount
+  hasChildren?: boolean; // children exist but are loaded on demand
+};
+
+export type TreeNode = {
+  id: string;
+  name: string;
+  level?: number;
+  parent?: string;
+  parentId?: string;
+  source?: string;
+  value?: number;
+  measures?: Record<string, number>;
+  hasChildren?: boolean;
+  children?: TreeNode[];
+};
+
+export type HierarchyIssueKind =
+  | "missing-parent"
+  | "parent-cycle"
+  | "duplicate-name"
+  | "level-mismatch"
+  | "invalid-value"
+  | "invalid-row";
+
+/** Problem found while nesting; the tree is still built around it */
+export type HierarchyIssue = {
+  kind: HierarchyIssueKind;
+  row: number; // index into the input items
+  id: string;
+  name: string;
+  message: string;
+};
+
+/** Id of the synthetic node that holds all level-1 items */
+export const ROOT_ID = "__root__";
+
+// ---------- Identity ----------
+
+/** Fallback id for items without an explicit `id`: "source::A/B/C" */
+export function compositeId(source: string | undefined, path: string[]) {
+  return `${source ?? ""}::${path.join("/")}`;
+}
+
+type Entry = {
+  item: FlatItem;
+  row: number;
+  parent: Entry | null;
+  missingParent?: boolean; // parent reference did not resolve
+  cycleCut?: boolean; // parent link dropped to break a cycle
+};
+
+/** Rows that can be nested: objects with a string `name` */
+function isNestable(item: unknown): item is FlatItem {
+  return (
+    !!item &&
+    typeof item === "object" &&
+    typeof (item as FlatItem).name === "string"
+  );
+}
+
+/**
+ * Resolve each item's parent entry.
+ * - `parentId` matches an explicit `id`
+ * - `parent` matches by name, preferring the same source
+ * - rows that can't be nested are left out (their `row` keeps the index)
+ */
+function linkParents(items: FlatItem[]): Entry[] {
+  const entries: Entry[] = items.flatMap((item, row) =>
+    isNestable(item) ? [{ item, row, parent: null }] : []
+  );
+  const byId = new Map<string, Entry>();
+  const byName = new Map<string, Entry[]>();
+  for (const e of entries) {
+    if (e.item.id !== undefined && !byId.has(e.item.id))
+      byId.set(e.item.id, e);
+    const list = byName.get(e.item.name);
+    if (list) list.push(e);
+    else byName.set(e.item.name, [e]);
+  }
+
+  for (const e of entries) {
+    const { parentId, parent, source } = e.item;
+    if (parentId !== undefined) {
+      e.parent = byId.get(parentId) ?? null;
+    } else if (parent !== undefined) {
+      const candidates = (byName.get(parent) ?? []).filter((c) => c !== e);
+      e.parent =
+        candidates.find((c) => c.item.source === source) ??
+        candidates[0] ??
+        null;
+    } else continue;
+    e.missingParent = !e.parent;
+  }
+
+  // Break parent cycles so every chain ends at a root
+  for (const e of entries) {
+    const seen = new Set<Entry>();
+    let cur: Entry | null = e;
+    while (cur) {
+      seen.add(cur);
+      if (cur.parent && seen.has(cur.parent)) {
+        cur.parent = null;
+        cur.cycleCut = true;
+        break;
+      }
+      cur = cur.parent;
+    }
+  }
+  return entries;
+}
+
+function namePath(e: Entry): string[] {
+  const path: string[] = [];
+  for (let cur: Entry | null = e; cur; cur = cur.parent)
+    path.unshift(cur.item.name);
+  return path;
+}
+
+// ---------- Nesting ----------
+
+/**
+ * 1-based level of every item, inferred from its parent chain
+ * (0 for rows that can't be nested)
+ */
+export function inferLevels(items: FlatItem[]): number[] {
+  const levels = items.map(() => 0);
+  for (const e of linkParents(items)) levels[e.row] = namePath(e).length;
+  return levels;
+}
+
+const isValidValue = (v: unknown) =>
+  v === undefined || (typeof v === "number" && Number.isFinite(v));
+
+/** Names of measures that are not finite numbers */
+function invalidMeasures(measures: FlatItem["measures"]): string[] {
+  return Object.entries(measures ?? {})
+    .filter(([, v]) => !isValidValue(v))
+    .map(([k]) => k);
+}
+
+/** Measures with the invalid entries dropped */
+function validMeasures(measures: FlatItem["measures"]) {
+  if (!measures) return undefined;
+  const bad = new Set(invalidMeasures(measures));
+  return bad.size
+    ? Object.fromEntries(Object.entries(measures).filter(([k]) => !bad.has(k)))
+    : measures;
+}
+
+/**
+ * Convert flat (level/parent) list into a single tree:
+ * { id: ROOT_ID, name: "root", children: [ level1 nodes … ] }
+ * - Any depth; each node's level is its depth below the synthetic root
+ * - Allows multiple level-1 roots
+ * - Nodes are keyed by id, so equal names under different parents coexist
+ * - Never throws: bad rows are attached as roots (or lose their value),
+ *   rows that aren't objects with a string `name` are skipped, and each
+ *   is described in `issues`
+ */
+export function nestFlatToTree(
+  items: FlatItem[],
+  issues: HierarchyIssue[] = []
+): TreeNode {
+  items.forEach((item: unknown, row) => {
+    if (isNestable(item)) return;
+    issues.push({
+      kind: "invalid-row",
+      row,
+      id: "",
+      name: "",
+      message:
+        item && typeof item === "object"
+          ? "Row has no name; skipped"
+          : `Row is ${JSON.stringify(item) ?? "undefined"}, not an object; skipped`,
+    });
+  });
+  const entries = linkParents(items);
+  const ids = new Map<Entry, string>();
+  const levels = new Map<Entry, number>();
+  for (const e of entries) {
+    const path = namePath(e);
+    ids.set(e, e.item.id ?? compositeId(e.item.source, path));
+    levels.set(e, path.length);
+  }
+
+  const seenNames = new Set<string>();
+  const seenIds = new Set<string>();
+  for (const e of entries) {
+    const { name, source, parent, parentId, level, value, measures } = e.item;
+    const report = (kind: HierarchyIssueKind, message: string) =>
+      issues.push({ kind, row: e.row, id: ids.get(e)!, name, message });
+
+    if (e.missingParent)
+      report(
+        "missing-parent",
+        `Parent "${parentId ?? parent}" of "${name}" not found; shown as a root`
+      );
+    if (e.cycleCut)
+      report(
+        "parent-cycle",
+        `"${name}" is part of a parent cycle; its parent link was dropped`
+      );
+    // Only rows without an explicit id make `parent` lookups ambiguous
+    const id = ids.get(e)!;
+    const nameKey = `${source ?? ""}::${name}`;
+    if (seenIds.has(id))
+      report(
+        "duplicate-name",
+        `"${name}" resolves to the same id as an earlier row ("${id}"); merged into it`
+      );
+    else if (e.item.id === undefined && seenNames.has(nameKey))
+      report(
+        "duplicate-name",
+        `"${name}" appears more than once in source "${source ?? "(none)"}"`
+      );
+    seenIds.add(id);
+    if (e.item.id === undefined) seenNames.add(nameKey);
+    // A broken parent link already explains a wrong level
+    const inferred = levels.get(e)!;
+    const linkBroken = e.missingParent || e.cycleCut;
+    if (level !== undefined && level !== inferred && !linkBroken)
+      report(
+        "level-mismatch",
+        `Level ${level} for "${name}" contradicts its parent chain (level ${inferred})`
+      );
+    if (!isValidValue(value))
+      report(
+        "invalid-value",
+        `Value "${String(value)}" for "${name}" is not a number; ignored`
+      );
+    for (const k of invalidMeasures(measures))
+      report(
+        "invalid-value",
+        `Measure "${k}" = "${String(measures![k])}" for "${name}" is not a number; ignored`
+      );
+  }
+
+  // Rows that resolve to the same id collapse into one node (first wins)
+  const byId = new Map<string, TreeNode>();
+  for (const e of entries) {
+    const id = ids.get(e)!;
+    if (byId.has(id)) continue;
+    byId.set(id, {
+      ...e.item,
+      id,
+      level: levels.get(e),
+      value: isValidValue(e.item.value) ? e.item.value : undefined,
+      measures: validMeasures(e.item.measures),
+      parentId: e.parent ? ids.get(e.parent) : undefined,
+      children: [],
+    });
+  }
+
+  const roots: TreeNode[] = [];
+  for (const node of byId.values()) {
+    const p = node.parentId !== undefined ? byId.get(node.parentId) : undefined;
+    if (p) p.children!.push(node);
+    else roots.push(node); // fallback: missing parent -> treat as root
+  }
+  return { id: ROOT_ID, name: "root", children: roots };
+}
+
+/** Pre-nested input: d3 "flare"-style JSON, API responses, or a TreeNode */
+export type NestedItem = Omit<FlatItem, "parent" | "parentId"> & {
+  children?: NestedItem[];
+};
+
+/**
+ * Flatten nested input into FlatItem rows, so it goes through the same
+ * nesting and validation as flat data.
+ * - A single object is one level-1 node; an array is several
+ * - A synthetic root (id === ROOT_ID) is unwrapped to its children
+ * - `source` is inherited from the nearest ancestor that sets it
+ * - `under` attaches the top-level nodes below an existing node
+ *   (its id, name path and source), e.g. for lazily loaded children
+ * - Nodes that aren't objects with a string `name` are passed through
+ *   without their subtree, for nestFlatToTree to report
+ */
+export function flattenNested(
+  input: NestedItem | NestedItem[],
+  under?: { id: string; path: string[]; source?: string }
+): FlatItem[] {
+  const items: FlatItem[] = [];
+  const visit = (
+    node: NestedItem,
+    parentPath: string[],
+    parentId: string | undefined,
+    inheritedSource: string | undefined
+  ) => {
+    if (!isNestable(node)) {
+      items.push(node as FlatItem);
+      return;
+    }
+    const { children, ...rest } = node;
+    const source = node.source ?? inheritedSource;
+    const path = [...parentPath, node.name];
+    const id = node.id ?? compositeId(source, path);
+    items.push({ ...rest, id, source, parent: undefined, parentId });
+    if (Array.isArray(children))
+      for (const c of children) visit(c, path, id, source);
+  };
+
+  const roots = Array.isArray(input)
+    ? input
+    : input.id === ROOT_ID
+      ? (input.children ?? [])
+      : [input];
+  for (const r of roots) visit(r, under?.path ?? [], under?.id, under?.source);
+  return items;
+}
+
+/**
+ * Accepts either shape a hierarchy endpoint may return:
+ * - FlatItem[] (rows with level/parent)
+ * - NestedItem or NestedItem[] (anything with `children`)
+ * Rows aren't checked here; malformed ones come out as `invalid-row`
+ * issues when nested. Throws only when the payload has neither shape.
+ */
+export function toFlatItems(json: unknown): FlatItem[] {
+  if (Array.isArray(json)) {
+    const nested = json.some((d) => Array.isArray(d?.children));
+    return nested ? flattenNested(json as NestedItem[]) : (json as FlatItem[]);
+  }
+  if (json && typeof json === "object" && "name" in json)
+    return flattenNested(json as NestedItem);
+  throw new Error("Response is not a hierarchy (expected an array or a node)");
+}
+
+/** Run the nesting pass only for its diagnostics */
+export function validateHierarchy(items: FlatItem[]): HierarchyIssue[] {
+  const issues: HierarchyIssue[] = [];
+  nestFlatToTree(items, issues);
+  return issues;
+}
+
+// ---------- Lookup ----------
+
+/** Find a node in the tree by id (used for restoring focus) */
+export function findNodeById(root: TreeNode, id: string): TreeNode | null {
+  if (root.id === id) return root;
+  for (const c of root.children || []) {
+    const found = findNodeById(c, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Nodes from `root` down to the node with `id` (inclusive), or [] */
+export function findPathById(root: TreeNode, id: string): TreeNode[] {
+  if (root.id === id) return [root];
+  for (const c of root.children || []) {
+    const rest = findPathById(c, id);
+    if (rest.length) return [root, ...rest];
+  }
+  return [];
+}
+
+/** Id of the parent of `id`, or null for the root / unknown ids */
+export function findParentId(root: TreeNode, id: string): string | null {
+  const path = findPathById(root, id);
+  return path.length > 1 ? path[path.length - 2].id : null;
+}
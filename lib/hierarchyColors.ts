@@ -0,0 +1,24 @@
+import { scaleOrdinal } from "d3-scale";
+import { schemeCategory10 } from "d3-scale-chromatic";
+import type { TreeNode } from "@/lib/hierarchy";
+
+/**
+ * Node id → name of its level-1 ancestor (its own name at level 1 and
+ * for the root). Charts color by it, so a branch keeps its color while
+ * drilling and across encodings.
+ */
+export function colorKeys(tree: TreeNode): Map<string, string> {
+  const keys = new Map<string, string>([[tree.id, tree.name]]);
+  for (const top of tree.children ?? []) {
+    const visit = (n: TreeNode) => {
+      keys.set(n.id, top.name);
+      n.children?.forEach(visit);
+    };
+    visit(top);
+  }
+  return keys;
+}
+
+/** Palette for colorKeys (d3 category10) */
+export const categoryColor = () =>
+  scaleOrdinal<string, string>(schemeCategory10);
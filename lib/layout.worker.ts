@@ -0,0 +1,32 @@
+import { LayoutKind, LayoutInput, runLayoutJob } from "@/lib/layoutJobs";
+
+/** Page → worker: one job; a newer job replaces the worker, not this loop */
+export type LayoutRequest<K extends LayoutKind = LayoutKind> = {
+  id: number;
+  kind: K;
+  input: LayoutInput<K>;
+};
+
+/** Worker → page */
+export type LayoutMessage =
+  | { id: number; type: "progress"; done: number }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; message: string };
+
+const reply = (msg: LayoutMessage, transfer: Transferable[] = []) =>
+  self.postMessage(msg, { transfer });
+
+self.addEventListener("message", (e: MessageEvent<LayoutRequest>) => {
+  const { id, kind, input } = e.data;
+  try {
+    const result = runLayoutJob(kind, input, (done) =>
+      reply({ id, type: "progress", done })
+    );
+    // Pack positions are a typed array: hand the buffer over, don't copy it
+    const transfer =
+      kind === "pack" ? [(result as { xyrv: Float64Array }).xyrv.buffer] : [];
+    reply({ id, type: "result", result }, transfer);
+  } catch (err) {
+    reply({ id, type: "error", message: String(err) });
+  }
+});
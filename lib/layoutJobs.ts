@@ -0,0 +1,207 @@
+import Graph from "graphology";
+import forceAtlas2 from "graphology-layout-forceatlas2";
+import type { ForceAtlas2Settings } from "graphology-layout-forceatlas2";
+import type { TreeNode } from "@/lib/hierarchy";
+import { rollup } from "@/lib/measures";
+import {
+  PackPositions,
+  packPositions,
+  packSized,
+  sizedHierarchy,
+} from "@/lib/packLayout";
+import {
+  BubblePackingLayout,
+  BubblePackingOptions,
+  PlacedBubble,
+  computeBubblePackingLayout,
+} from "@/lib/bubblePackingLayout";
+
+/**
+ * Layouts that may run in the layout worker: what each takes and returns.
+ * Inputs and results are plain (structured-cloneable) data.
+ */
+export type LayoutJobs = {
+  pack: {
+    input: {
+      tree: TreeNode;
+      width: number;
+      height: number;
+      padding: number;
+      sizes?: Map<string, number>;
+      depth?: number;
+    };
+    result: PackPositions;
+  };
+  bubble: {
+    input: BubblePackingOptions & { focus: TreeNode; side: number };
+    result: Omit<BubblePackingLayout, "nodes"> & {
+      nodes: Omit<PlacedBubble, "data">[];
+    };
+  };
+  forceAtlas2: {
+    input: {
+      graph: ReturnType<Graph["export"]>;
+      iterations: number;
+      settings?: ForceAtlas2Settings;
+    };
+    result: Record<string, { x: number; y: number }>;
+  };
+};
+
+export type LayoutKind = keyof LayoutJobs;
+export type LayoutInput<K extends LayoutKind> = LayoutJobs[K]["input"];
+export type LayoutResult<K extends LayoutKind> = LayoutJobs[K]["result"];
+
+/** Jobs cheaper than this (≈ node visits) run on the main thread */
+export const WORKER_MIN_COST = 5000;
+
+const FA2_CHUNK = 10; // iterations between progress reports
+const PACK_SIZED = 0.3; // share of a pack job done once the tree is summed
+const PACK_PLACED = 0.9; // … and once the circles are packed
+const BUBBLE_NODE_COST = 20; // overlap resolution revisits each bubble often
+
+/** Copy of `node` down to `depth` generations (children beyond are cut) */
+export function trimTree(node: TreeNode, depth: number): TreeNode {
+  if (!node.children) return node;
+  if (depth <= 0) return { ...node, children: undefined };
+  return {
+    ...node,
+    children: node.children.map((c) => trimTree(c, depth - 1)),
+  };
+}
+
+const countNodes = (node: TreeNode): number =>
+  1 + (node.children ?? []).reduce((n, c) => n + countNodes(c), 0);
+
+/** The entries of `sizes` for nodes of `tree` */
+function sizesIn(tree: TreeNode, sizes?: Map<string, number>) {
+  if (!sizes) return sizes;
+  const keep = new Map<string, number>();
+  const visit = (n: TreeNode) => {
+    if (sizes.has(n.id)) keep.set(n.id, sizes.get(n.id)!);
+    n.children?.forEach(visit);
+  };
+  visit(tree);
+  return keep;
+}
+
+/**
+ * Smallest input that yields the same layout, to keep postMessage copies
+ * cheap: the pack only needs `depth` generations (and their sizes), the
+ * bubble layout only `overlayDepth` generations (and theirs).
+ */
+export function trimLayoutInput<K extends LayoutKind>(
+  kind: K,
+  input: LayoutInput<K>
+): LayoutInput<K> {
+  if (kind === "pack") {
+    const { tree, sizes, depth = Infinity } = input as LayoutInput<"pack">;
+    if (!Number.isFinite(depth)) return input;
+    const trimmed = trimTree(tree, depth);
+    return { ...input, tree: trimmed, sizes: sizesIn(trimmed, sizes) };
+  }
+  if (kind === "bubble") {
+    const { focus, sizes, overlayDepth = 2 } = input as LayoutInput<"bubble">;
+    const trimmed = trimTree(focus, overlayDepth);
+    // Roll up on the full tree: cut-off descendants still count
+    const all = sizes ?? rollup(focus);
+    return { ...input, focus: trimmed, sizes: sizesIn(trimmed, all) };
+  }
+  return input;
+}
+
+/** Rough cost of a job, compared against WORKER_MIN_COST */
+export function layoutCost<K extends LayoutKind>(
+  kind: K,
+  input: LayoutInput<K>
+): number {
+  if (kind === "forceAtlas2") {
+    const { graph, iterations } = input as LayoutInput<"forceAtlas2">;
+    return graph.nodes.length * iterations;
+  }
+  const trimmed = trimLayoutInput(kind, input);
+  if (kind === "pack") return countNodes((trimmed as LayoutInput<"pack">).tree);
+  return (
+    countNodes((trimmed as LayoutInput<"bubble">).focus) * BUBBLE_NODE_COST
+  );
+}
+
+/**
+ * Run a layout job to completion. Long jobs report `onProgress(0…1)`
+ * between chunks (the worker forwards these to the page).
+ */
+export function runLayoutJob<K extends LayoutKind>(
+  kind: K,
+  input: LayoutInput<K>,
+  onProgress?: (done: number) => void
+): LayoutResult<K> {
+  switch (kind) {
+    case "pack": {
+      const { tree, width, height, padding, sizes, depth } =
+        input as LayoutInput<"pack">;
+      const sized = sizedHierarchy(tree, { sizes, depth });
+      onProgress?.(PACK_SIZED);
+      const root = packSized(sized, width, height, padding);
+      onProgress?.(PACK_PLACED);
+      return packPositions(root) as LayoutResult<K>;
+    }
+    case "bubble": {
+      const { focus, side, ...options } = input as LayoutInput<"bubble">;
+      const layout = computeBubblePackingLayout(focus, side, options);
+      return {
+        side: layout.side,
+        scale: layout.scale,
+        // `data` is re-attached on the page (see attachBubbleData)
+        nodes: layout.nodes.map(({ id, name, depth, r, x, y, parentId }) => ({
+          id,
+          name,
+          depth,
+          r,
+          x,
+          y,
+          parentId,
+        })),
+      } as LayoutResult<K>;
+    }
+    case "forceAtlas2": {
+      const { graph, iterations, settings } =
+        input as LayoutInput<"forceAtlas2">;
+      const g = Graph.from(graph);
+      for (let done = 0; done < iterations; done += FA2_CHUNK) {
+        const n = Math.min(FA2_CHUNK, iterations - done);
+        forceAtlas2.assign(g, { iterations: n, settings });
+        onProgress?.((done + n) / iterations);
+      }
+      const positions: LayoutResult<"forceAtlas2"> = {};
+      g.forEachNode((key, attrs) => {
+        positions[key] = { x: attrs.x, y: attrs.y };
+      });
+      return positions as LayoutResult<K>;
+    }
+  }
+  throw new Error(`Unknown layout job: ${kind}`);
+}
+
+/**
+ * Layout from a "bubble" job with `data` pointing back into `focus`'s
+ * subtree; null if the result was computed for another focus.
+ */
+export function attachBubbleData(
+  result: LayoutResult<"bubble"> | null,
+  focus: TreeNode
+): BubblePackingLayout | null {
+  if (!result || result.nodes[0]?.id !== focus.id) return null;
+  const depth = result.nodes.reduce((m, n) => Math.max(m, n.depth), 0);
+  const byId = new Map<string, TreeNode>();
+  const visit = (n: TreeNode, d: number) => {
+    byId.set(n.id, n);
+    if (d < depth) n.children?.forEach((c) => visit(c, d + 1));
+  };
+  visit(focus, 0);
+  const nodes: PlacedBubble[] = [];
+  for (const n of result.nodes) {
+    const data = byId.get(n.id);
+    if (data) nodes.push({ ...n, data });
+  }
+  return { nodes, side: result.side, scale: result.scale };
+}
@@ -0,0 +1,88 @@
+import type { TreeNode } from "@/lib/hierarchy";
+
+// ---------- Types ----------
+/** How internal nodes combine the measure of their descendant leaves */
+export type Aggregation = "sum" | "mean" | "max" | "count";
+
+export const AGGREGATIONS: Aggregation[] = ["sum", "mean", "max", "count"];
+
+/** Built-in metric backed by `value` (defaults to 1, like d3's .sum) */
+export const DEFAULT_METRIC = "value";
+
+// ---------- Helpers ----------
+
+/** Raw measure on a node: `value` or one of `measures` */
+export function measureOf(node: TreeNode, metric: string): number | undefined {
+  return metric === DEFAULT_METRIC ? node.value : node.measures?.[metric];
+}
+
+/** "value" plus every named measure used anywhere in the tree */
+export function measureNames(root: TreeNode): string[] {
+  const names = new Set<string>();
+  const visit = (n: TreeNode) => {
+    for (const k of Object.keys(n.measures ?? {})) names.add(k);
+    n.children?.forEach(visit);
+  };
+  visit(root);
+  return [DEFAULT_METRIC, ...Array.from(names).sort()];
+}
+
+/**
+ * Rolled-up size per node id. Leaves use their own measure (missing:
+ * 1 for "value", 0 for named measures); internal nodes aggregate the
+ * measures of their descendant leaves (mean / max skip leaves that lack
+ * the measure, count includes every leaf).
+ */
+export function rollup(
+  root: TreeNode,
+  metric: string = DEFAULT_METRIC,
+  aggregation: Aggregation = "sum"
+): Map<string, number> {
+  const out = new Map<string, number>();
+  type Acc = { sum: number; measured: number; max: number; leaves: number };
+
+  const visit = (n: TreeNode): Acc => {
+    let acc: Acc;
+    if (!n.children?.length) {
+      const v =
+        measureOf(n, metric) ?? (metric === DEFAULT_METRIC ? 1 : undefined);
+      acc =
+        v === undefined
+          ? { sum: 0, measured: 0, max: -Infinity, leaves: 1 }
+          : { sum: v, measured: 1, max: v, leaves: 1 };
+      out.set(n.id, aggregation === "count" ? 1 : (v ?? 0));
+      return acc;
+    }
+    acc = { sum: 0, measured: 0, max: -Infinity, leaves: 0 };
+    for (const c of n.children) {
+      const a = visit(c);
+      acc.sum += a.sum;
+      acc.measured += a.measured;
+      acc.max = Math.max(acc.max, a.max);
+      acc.leaves += a.leaves;
+    }
+    out.set(
+      n.id,
+      aggregation === "sum"
+        ? acc.sum
+        : aggregation === "count"
+          ? acc.leaves
+          : !acc.measured
+            ? 0
+            : aggregation === "mean"
+              ? acc.sum / acc.measured
+              : acc.max
+    );
+    return acc;
+  };
+  visit(root);
+  return out;
+}
+
+/** What a rolled-up size means, e.g. "sum of revenue" */
+export function measureLabel(metric: string, aggregation: Aggregation) {
+  return aggregation === "count" ? "leaf count" : `${aggregation} of ${metric}`;
+}
+
+export const formatMeasure = (v: number) =>
+  v.toLocaleString(undefined, { maximumFractionDigits: 2 });
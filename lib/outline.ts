@@ -0,0 +1,65 @@
+import { FlatItem, TreeNode, nestFlatToTree } from "@/lib/hierarchy";
+import { flatItemsFromSegments } from "@/lib/paths";
+
+export type OutlineImportOptions = {
+  source?: string;
+  tabWidth?: number; // columns per tab when measuring indentation (default 4)
+};
+
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const LIST_MARKER = /^(?:[-*+]|\d+[.)])\s+/;
+const TRAILING_VALUE = /^(.*?)\s*:\s*(-?\d+(?:\.\d+)?)$/;
+
+/**
+ * Indented Markdown outline → FlatItem rows.
+ * - `#` headings nest by heading level
+ * - list items / plain lines nest by indentation (under the last heading)
+ * - "Name: 42" attaches a value to that node
+ */
+export function flatItemsFromOutline(
+  text: string,
+  { source, tabWidth = 4 }: OutlineImportOptions = {}
+): FlatItem[] {
+  // rank orders nesting: headings (1..6) always enclose indented lines
+  const stack: { rank: number; segments: string[] }[] = [];
+  const paths: { segments: string[]; value?: number }[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    if (!raw.trim()) continue;
+    const lead = raw.match(/^[ \t]*/)![0];
+    const indent = lead.replace(/\t/g, " ".repeat(tabWidth)).length;
+    let body = raw.trim();
+
+    let rank: number;
+    const heading = body.match(HEADING);
+    if (heading) {
+      rank = heading[1].length;
+      body = heading[2];
+    } else {
+      rank = 100 + indent;
+      body = body.replace(LIST_MARKER, "");
+    }
+
+    let value: number | undefined;
+    const withValue = body.match(TRAILING_VALUE);
+    if (withValue) {
+      body = withValue[1];
+      value = Number(withValue[2]);
+    }
+    const name = body.trim();
+    if (!name) continue;
+
+    while (stack.length && stack[stack.length - 1].rank >= rank) stack.pop();
+    const segments = [...(stack[stack.length - 1]?.segments ?? []), name];
+    stack.push({ rank, segments });
+    paths.push({ segments, value });
+  }
+  return flatItemsFromSegments(paths, source);
+}
+
+export function nestOutline(
+  text: string,
+  options?: OutlineImportOptions
+): TreeNode {
+  return nestFlatToTree(flatItemsFromOutline(text, options));
+}
@@ -0,0 +1,122 @@
+import type { HierarchyCircularNode } from "d3-hierarchy";
+import type { TreeNode } from "@/lib/hierarchy";
+import type { ViewTransform } from "@/lib/useZoom";
+
+type PackNode = HierarchyCircularNode<TreeNode>;
+
+/** How one circle is painted (stroke width in screen px) */
+export type PackCanvasStyle = {
+  fill: string;
+  fillOpacity: number;
+  stroke: string;
+  strokeWidth: number;
+  opacity: number;
+};
+
+/** Circles smaller than this on screen (px) are skipped with their subtree */
+export const MIN_DRAW_R = 0.5;
+
+/**
+ * Nodes worth drawing at transform `t` in a width × height viewport,
+ * parents before children. Children lie inside their parent's circle, so
+ * an off-screen or sub-pixel circle prunes its whole subtree. The root
+ * itself is never included (classic circle packing hides it).
+ */
+export function visiblePackNodes(
+  root: PackNode,
+  t: ViewTransform,
+  width: number,
+  height: number,
+  minR = MIN_DRAW_R
+): PackNode[] {
+  const out: PackNode[] = [];
+  const stack = [...(root.children ?? [])].reverse();
+  while (stack.length) {
+    const d = stack.pop()!;
+    const r = d.r * t.k;
+    const x = d.x * t.k + t.x;
+    const y = d.y * t.k + t.y;
+    if (r < minR || x + r < 0 || y + r < 0 || x - r > width || y - r > height)
+      continue;
+    out.push(d);
+    const children = d.children ?? [];
+    for (let i = children.length - 1; i >= 0; i--) stack.push(children[i]);
+  }
+  return out;
+}
+
+/**
+ * Paint `nodes` (see visiblePackNodes) in screen space, then the labels of
+ * circles at least `minLabelR` px in radius on top.
+ */
+export function drawPack(
+  ctx: CanvasRenderingContext2D,
+  nodes: PackNode[],
+  t: ViewTransform,
+  {
+    styleOf,
+    minLabelR,
+  }: { styleOf: (d: PackNode) => PackCanvasStyle; minLabelR: number }
+) {
+  const labels: { d: PackNode; r: number; alpha: number }[] = [];
+  for (const d of nodes) {
+    const s = styleOf(d);
+    const r = d.r * t.k;
+    ctx.beginPath();
+    ctx.arc(d.x * t.k + t.x, d.y * t.k + t.y, r, 0, 2 * Math.PI);
+    ctx.globalAlpha = s.opacity * s.fillOpacity;
+    ctx.fillStyle = s.fill;
+    ctx.fill();
+    if (s.strokeWidth > 0 && r > 2) {
+      ctx.globalAlpha = s.opacity;
+      ctx.lineWidth = s.strokeWidth;
+      ctx.strokeStyle = s.stroke;
+      ctx.stroke();
+    }
+    if (r > minLabelR) labels.push({ d, r, alpha: s.opacity });
+  }
+
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = "#fff";
+  ctx.shadowColor = "rgba(0,0,0,0.7)";
+  ctx.shadowOffsetY = 1;
+  ctx.shadowBlur = 1;
+  for (const { d, r, alpha } of labels) {
+    ctx.globalAlpha = alpha;
+    ctx.font = `600 ${Math.max(10, Math.min(18, r / 3))}px sans-serif`;
+    ctx.fillText(d.data.name, d.x * t.k + t.x, d.y * t.k + t.y);
+  }
+  ctx.shadowColor = "transparent";
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Deepest drawn node under screen point (px, py), or null for the
+ * background. Walks down from the root, so the cost is depth × fan-out.
+ */
+export function hitTestPack(
+  root: PackNode,
+  px: number,
+  py: number,
+  t: ViewTransform,
+  minR = MIN_DRAW_R
+): PackNode | null {
+  const x = (px - t.x) / t.k;
+  const y = (py - t.y) / t.k;
+  let hit: PackNode | null = null;
+  let node: PackNode = root;
+  descend: while (node.children) {
+    for (const c of node.children) {
+      if (c.r * t.k < minR) continue;
+      const dx = x - c.x;
+      const dy = y - c.y;
+      if (dx * dx + dy * dy <= c.r * c.r) {
+        hit = node = c;
+        continue descend;
+      }
+    }
+    break;
+  }
+  return hit;
+}
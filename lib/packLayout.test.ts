@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { TreeNode } from "@/lib/hierarchy";
+import { packFromPositions, sizedHierarchy } from "@/lib/packLayout";
+
+const tree: TreeNode = {
+  id: "r",
+  name: "r",
+  children: [
+    {
+      id: "a",
+      name: "a",
+      children: [
+        { id: "a1", name: "a1", value: 2 },
+        { id: "a2", name: "a2", value: 3 },
+      ],
+    },
+    { id: "b", name: "b", value: 4 },
+  ],
+};
+
+describe("sizedHierarchy", () => {
+  it("stops at `depth` without reading deeper children", () => {
+    const a = tree.children![0];
+    const guarded: TreeNode = {
+      ...tree,
+      children: [
+        {
+          ...a,
+          get children(): TreeNode[] {
+            throw new Error("read below depth");
+          },
+        },
+        tree.children![1],
+      ],
+    };
+    const root = sizedHierarchy(guarded, { depth: 1 });
+    expect(root.descendants().map((n) => n.data.id)).toEqual(["r", "b", "a"]);
+    expect(root.leaves().every((n) => !n.children)).toBe(true);
+  });
+
+  it("lays out every generation by default", () => {
+    const root = sizedHierarchy(tree);
+    expect(root.descendants()).toHaveLength(5);
+    expect(root.value).toBe(9);
+  });
+});
+
+describe("packFromPositions", () => {
+  it("cuts the hierarchy at `depth`", () => {
+    const root = packFromPositions(tree, 100, 100, null, 1);
+    expect(root.descendants().map((n) => n.data.id)).toEqual(["r", "a", "b"]);
+  });
+});
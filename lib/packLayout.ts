@@ -0,0 +1,120 @@
+import {
+  hierarchy as d3Hierarchy,
+  pack as d3Pack,
+  HierarchyCircularNode,
+  HierarchyNode,
+} from "d3-hierarchy";
+import type { TreeNode } from "@/lib/hierarchy";
+
+export type PackLayoutOptions = {
+  sizes?: Map<string, number>; // node id -> area weight (see rollup())
+  depth?: number; // generations to lay out below `subtree` (default: all)
+};
+
+/**
+ * Children accessor for d3's hierarchy() that stops `depth` generations
+ * below `root`, so deeper nodes are never visited
+ */
+function childrenToDepth(root: TreeNode, depth: number) {
+  const depths = new Map<TreeNode, number>([[root, 0]]);
+  return (d: TreeNode) => {
+    const level = depths.get(d)!;
+    if (level >= depth || !d.children) return undefined;
+    for (const c of d.children) depths.set(c, level + 1);
+    return d.children;
+  };
+}
+
+/**
+ * d3 hierarchy of `subtree`, summed and sorted for a space-filling layout.
+ * - Leaves are sized by `sizes` (default: value, or 1); if they all come
+ *   to 0, every leaf counts as 1
+ * - Nodes at `depth` become leaves, so their rolled-up size (rather than
+ *   the layout of their descendants) drives their area; `d.data` still
+ *   holds the full node
+ */
+export function sizedHierarchy(
+  subtree: TreeNode,
+  { sizes, depth = Infinity }: PackLayoutOptions = {}
+): HierarchyNode<TreeNode> {
+  const root = d3Hierarchy(subtree, childrenToDepth(subtree, depth));
+
+  const leaves = new Set(root.leaves().map((n) => n.data));
+  const size = (d: TreeNode) =>
+    sizes?.get(d.id) ?? (typeof d.value === "number" ? d.value : 1);
+  root.sum((d) => (leaves.has(d) ? Math.max(0, size(d)) : 0));
+  // nothing to size by (measure missing / 0 everywhere): equal leaves
+  if (!(root.value! > 0)) root.count();
+  return root.sort((a, b) => (b.value || 0) - (a.value || 0));
+}
+
+/** Pack an already sized hierarchy (see sizedHierarchy) into width × height */
+export function packSized(
+  root: HierarchyNode<TreeNode>,
+  width: number,
+  height: number,
+  padding: number
+): HierarchyCircularNode<TreeNode> {
+  return d3Pack<TreeNode>().size([width, height]).padding(padding)(root);
+}
+
+/** Compute a packed layout for a given subtree (sized as sizedHierarchy) */
+export function computePackLayout(
+  subtree: TreeNode,
+  width: number,
+  height: number,
+  padding: number,
+  options: PackLayoutOptions = {}
+): HierarchyCircularNode<TreeNode> {
+  return packSized(sizedHierarchy(subtree, options), width, height, padding);
+}
+
+/** A computed pack as plain data (posted back from the layout worker) */
+export type PackPositions = {
+  ids: string[];
+  xyrv: Float64Array; // x, y, r, value per id
+};
+
+export function packPositions(root: HierarchyCircularNode<TreeNode>) {
+  const nodes = root.descendants();
+  const xyrv = new Float64Array(nodes.length * 4);
+  nodes.forEach((d, i) => xyrv.set([d.x, d.y, d.r, d.value ?? 0], i * 4));
+  return { ids: nodes.map((d) => d.data.id), xyrv };
+}
+
+/**
+ * Rebuild the pack of `subtree` from positions computed elsewhere (same
+ * `depth` pruning as computePackLayout). Nodes the positions don't cover,
+ * or all of them while `positions` is null, collapse to a zero radius at
+ * their parent's center, with the root filling the view.
+ */
+export function packFromPositions(
+  subtree: TreeNode,
+  width: number,
+  height: number,
+  positions: PackPositions | null,
+  depth = Infinity
+): HierarchyCircularNode<TreeNode> {
+  const root = d3Hierarchy(
+    subtree,
+    childrenToDepth(subtree, depth)
+  ) as HierarchyCircularNode<TreeNode>;
+  const index = new Map(positions?.ids.map((id, i) => [id, i * 4]));
+  root.each((n) => {
+    const i = index.get(n.data.id);
+    const out = n as { value?: number }; // read-only in the d3 types
+    if (i !== undefined) {
+      const v = positions!.xyrv;
+      [n.x, n.y, n.r, out.value] = [v[i], v[i + 1], v[i + 2], v[i + 3]];
+    } else {
+      n.x = n.parent?.x ?? width / 2;
+      n.y = n.parent?.y ?? height / 2;
+      n.r = n.parent ? 0 : Math.min(width, height) / 2;
+      out.value = 0;
+    }
+  });
+  // Same sibling order (largest first) as the computed pack
+  const order = (n: HierarchyCircularNode<TreeNode>) =>
+    index.get(n.data.id) ?? Infinity;
+  return root.sort((a, b) => order(a) - order(b));
+}
@@ -0,0 +1,58 @@
+import {
+  partition as d3Partition,
+  treemap as d3Treemap,
+  treemapSquarify,
+  HierarchyRectangularNode,
+} from "d3-hierarchy";
+import type { TreeNode } from "@/lib/hierarchy";
+import { PackLayoutOptions, sizedHierarchy } from "@/lib/packLayout";
+
+/** Space-filling encodings of a hierarchy (besides circle packing) */
+export type PartitionKind = "treemap" | "icicle" | "sunburst";
+
+export type PartitionLayoutOptions = PackLayoutOptions & {
+  padding?: number; // px between cells (treemap / icicle)
+};
+
+/** Treemap cells taller than this keep a header strip for their label */
+export const TREEMAP_HEADER = 18;
+
+/**
+ * Rectangular layout of `subtree` in width × height, sized like
+ * computePackLayout (see sizedHierarchy).
+ * - "treemap": squarified; branches nest their children under a
+ *   TREEMAP_HEADER strip; the root is the whole area
+ * - "icicle": one row per generation, root on top
+ * - "sunburst": x0/x1 are angles (0…2π, clockwise from 12 o'clock), y0/y1
+ *   radii (0…min(width, height) / 2); the root is the center disc
+ */
+export function computePartitionLayout(
+  subtree: TreeNode,
+  kind: PartitionKind,
+  width: number,
+  height: number,
+  { padding = 1, ...options }: PartitionLayoutOptions = {}
+): HierarchyRectangularNode<TreeNode> {
+  const root = sizedHierarchy(subtree, options);
+  if (kind === "sunburst")
+    return d3Partition<TreeNode>().size([
+      2 * Math.PI,
+      Math.min(width, height) / 2,
+    ])(root);
+  if (kind === "icicle")
+    return d3Partition<TreeNode>().size([width, height]).padding(padding)(root);
+  return d3Treemap<TreeNode>()
+    .tile(treemapSquarify)
+    .size([width, height])
+    .paddingInner(padding)
+    .paddingOuter(padding)
+    .paddingTop((d) => (d.depth > 0 ? TREEMAP_HEADER : padding))
+    .round(true)(root);
+}
+
+/** `name` cut to fit `px` pixels of ~`fontSize` text ("" if nothing fits) */
+export function fitLabel(name: string, px: number, fontSize: number) {
+  const chars = Math.floor(px / (fontSize * 0.6));
+  if (chars >= name.length) return name;
+  return chars < 3 ? "" : `${name.slice(0, chars - 1)}…`;
+}
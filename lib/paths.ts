@@ -0,0 +1,72 @@
+import {
+  FlatItem,
+  TreeNode,
+  compositeId,
+  nestFlatToTree,
+} from "@/lib/hierarchy";
+
+// ---------- Types ----------
+export type PathEntry = string | { path: string; value?: number };
+
+export type PathImportOptions = {
+  separator?: string; // default "/"
+  source?: string;
+};
+
+type SegmentPath = { segments: string[]; value?: number };
+
+// ---------- Segments -> FlatItem ----------
+
+/**
+ * One FlatItem per distinct prefix, so intermediate nodes are created
+ * automatically. Ids match the composite ids nestFlatToTree would give
+ * the same rows, and the value lands on the node that ends the path.
+ */
+export function flatItemsFromSegments(
+  paths: SegmentPath[],
+  source?: string
+): FlatItem[] {
+  const byId = new Map<string, FlatItem>();
+  for (const { segments, value } of paths) {
+    let parentId: string | undefined;
+    segments.forEach((name, i) => {
+      const id = compositeId(source, segments.slice(0, i + 1));
+      let item = byId.get(id);
+      if (!item) {
+        item = { id, name, level: i + 1, parentId, source };
+        byId.set(id, item);
+      }
+      if (i === segments.length - 1 && value !== undefined) item.value = value;
+      parentId = id;
+    });
+  }
+  return Array.from(byId.values());
+}
+
+// ---------- Path strings ----------
+
+/** "Ford Europe/Locations/Germany/Cologne Plant" → FlatItem rows */
+export function flatItemsFromPaths(
+  entries: PathEntry[],
+  { separator = "/", source }: PathImportOptions = {}
+): FlatItem[] {
+  const paths = entries.map((e) => {
+    const { path, value } = typeof e === "string" ? { path: e } : e;
+    const segments = path
+      .split(separator)
+      .map((s) => s.trim())
+      .filter(Boolean);
+    return { segments, value };
+  });
+  return flatItemsFromSegments(
+    paths.filter((p) => p.segments.length),
+    source
+  );
+}
+
+export function nestPaths(
+  entries: PathEntry[],
+  options?: PathImportOptions
+): TreeNode {
+  return nestFlatToTree(flatItemsFromPaths(entries, options));
+}
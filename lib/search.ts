@@ -0,0 +1,74 @@
+import { TreeNode, ROOT_ID } from "@/lib/hierarchy";
+
+export type HierarchySearchResult = {
+  node: TreeNode;
+  path: TreeNode[]; // level-1 node → node (synthetic root omitted)
+  score: number;
+  field: string; // which field matched best
+};
+
+/** Lower-case and strip accents so "valència" finds "Valencia" */
+const normalize = (s: string) =>
+  s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+/**
+ * Subsequence match of `query` in `text`; higher is better, null if some
+ * query character is missing. Consecutive runs, word starts and plain
+ * substrings score extra.
+ */
+export function fuzzyScore(text: string, query: string): number | null {
+  const t = normalize(text);
+  const q = normalize(query).replace(/\s+/g, " ").trim();
+  if (!q) return null;
+
+  let score = 0;
+  let ti = 0;
+  let prev = -2;
+  for (const ch of q) {
+    const i = t.indexOf(ch, ti);
+    if (i < 0) return null;
+    score += 1;
+    if (i === prev + 1) score += 2; // consecutive
+    if (i === 0 || /[\s\-_/.(]/.test(t[i - 1])) score += 3; // word start
+    prev = i;
+    ti = i + 1;
+  }
+  const sub = t.indexOf(q);
+  if (sub >= 0) score += sub === 0 ? 12 : 8;
+  return score - (t.length - q.length) * 0.01; // prefer shorter names
+}
+
+/**
+ * All nodes whose `fields` (default: name) fuzzily match `query`, best
+ * first. Only string-valued fields are searched.
+ */
+export function searchHierarchy(
+  tree: TreeNode,
+  query: string,
+  fields: string[] = ["name"]
+): HierarchySearchResult[] {
+  const results: HierarchySearchResult[] = [];
+  if (!query.trim()) return results;
+
+  const visit = (node: TreeNode, path: TreeNode[]) => {
+    let best: { score: number; field: string } | null = null;
+    for (const field of fields) {
+      const v = (node as Record<string, unknown>)[field];
+      if (typeof v !== "string") continue;
+      const score = fuzzyScore(v, query);
+      if (score !== null && (!best || score > best.score))
+        best = { score, field };
+    }
+    if (best) results.push({ node, path, ...best });
+    for (const c of node.children ?? []) visit(c, [...path, c]);
+  };
+  for (const c of tree.id === ROOT_ID ? (tree.children ?? []) : [tree])
+    visit(c, [c]);
+
+  return results.sort(
+    (a, b) => b.score - a.score || a.path.length - b.path.length
+  );
+}
@@ -0,0 +1,184 @@
+import type { HierarchyNode } from "d3-hierarchy";
+import type { TreeNode } from "@/lib/hierarchy";
+import { computePackLayout } from "@/lib/packLayout";
+import {
+  PartitionKind,
+  PartitionLayoutOptions,
+  computePartitionLayout,
+} from "@/lib/partitionLayout";
+
+/** Encodings a HierarchyExplorer can switch between */
+export type ExplorerLayout = "pack" | PartitionKind;
+
+/**
+ * Outline of one node in some layout. Arc angles follow d3-shape: 0 at
+ * 12 o'clock, clockwise.
+ */
+export type NodeShape =
+  | { kind: "circle"; cx: number; cy: number; r: number }
+  | { kind: "rect"; x0: number; y0: number; x1: number; y1: number }
+  | {
+      kind: "arc";
+      cx: number;
+      cy: number;
+      a0: number;
+      a1: number;
+      r0: number;
+      r1: number;
+    };
+
+export type PlacedShape = { node: HierarchyNode<TreeNode>; shape: NodeShape };
+
+/** Points per outline while morphing */
+export const MORPH_POINTS = 72;
+
+type Point = [number, number];
+
+/**
+ * Every node of `subtree` (down to `depth` generations) as a shape in a
+ * width × height view, parents before children.
+ */
+export function layoutShapes(
+  subtree: TreeNode,
+  layout: ExplorerLayout,
+  width: number,
+  height: number,
+  options: PartitionLayoutOptions = {}
+): PlacedShape[] {
+  if (layout === "pack") {
+    const side = Math.min(width, height);
+    const [dx, dy] = [(width - side) / 2, (height - side) / 2];
+    return computePackLayout(subtree, side, side, options.padding ?? 3, options)
+      .descendants()
+      .map((d) => ({
+        node: d,
+        shape: { kind: "circle", cx: d.x + dx, cy: d.y + dy, r: d.r },
+      }));
+  }
+  const root = computePartitionLayout(subtree, layout, width, height, options);
+  return root.descendants().map((d) => ({
+    node: d,
+    shape:
+      layout === "sunburst"
+        ? {
+            kind: "arc",
+            cx: width / 2,
+            cy: height / 2,
+            a0: d.x0,
+            a1: d.x1,
+            r0: d.y0,
+            r1: d.y1,
+          }
+        : { kind: "rect", x0: d.x0, y0: d.y0, x1: d.x1, y1: d.y1 },
+  }));
+}
+
+const polar = (cx: number, cy: number, r: number, a: number): Point => [
+  cx + r * Math.sin(a),
+  cy - r * Math.cos(a),
+];
+
+/** Exact SVG path of a shape */
+export function shapePath(s: NodeShape): string {
+  if (s.kind === "circle")
+    return `M${s.cx - s.r},${s.cy}a${s.r},${s.r} 0 1,0 ${2 * s.r},0a${s.r},${s.r} 0 1,0 ${-2 * s.r},0Z`;
+  if (s.kind === "rect") return `M${s.x0},${s.y0}H${s.x1}V${s.y1}H${s.x0}Z`;
+  const large = s.a1 - s.a0 > Math.PI ? 1 : 0;
+  const [ox0, oy0] = polar(s.cx, s.cy, s.r1, s.a0);
+  const [ox1, oy1] = polar(s.cx, s.cy, s.r1, s.a1);
+  if (s.a1 - s.a0 >= 2 * Math.PI - 1e-6)
+    // full ring (or disc): two half circles per radius
+    return (
+      shapePath({ kind: "circle", cx: s.cx, cy: s.cy, r: s.r1 }) +
+      (s.r0 > 0
+        ? shapePath({ kind: "circle", cx: s.cx, cy: s.cy, r: s.r0 })
+        : "")
+    );
+  const [ix1, iy1] = polar(s.cx, s.cy, s.r0, s.a1);
+  const [ix0, iy0] = polar(s.cx, s.cy, s.r0, s.a0);
+  return (
+    `M${ox0},${oy0}A${s.r1},${s.r1} 0 ${large},1 ${ox1},${oy1}` +
+    `L${ix1},${iy1}A${s.r0},${s.r0} 0 ${large},0 ${ix0},${iy0}Z`
+  );
+}
+
+/**
+ * `n` points around a polyline loop, evenly spaced by length, starting
+ * at its first vertex
+ */
+function resample(loop: Point[], n: number): Point[] {
+  const lengths = loop.map((p, i) => {
+    const q = loop[(i + 1) % loop.length];
+    return Math.hypot(q[0] - p[0], q[1] - p[1]);
+  });
+  const total = lengths.reduce((a, b) => a + b, 0);
+  if (!(total > 0)) return Array.from({ length: n }, () => loop[0]);
+  const out: Point[] = [];
+  let seg = 0;
+  let start = 0; // length along the loop where `seg` begins
+  for (let i = 0; i < n; i++) {
+    const at = (i / n) * total;
+    while (at > start + lengths[seg]) start += lengths[seg++];
+    const t = lengths[seg] ? (at - start) / lengths[seg] : 0;
+    const [p, q] = [loop[seg], loop[(seg + 1) % loop.length]];
+    out.push([p[0] + (q[0] - p[0]) * t, p[1] + (q[1] - p[1]) * t]);
+  }
+  return out;
+}
+
+/**
+ * The shape as `n` points, clockwise from its top-left, so outlines of
+ * different kinds line up point for point (see lerpOutline)
+ */
+export function shapeOutline(s: NodeShape, n = MORPH_POINTS): Point[] {
+  if (s.kind === "circle")
+    return Array.from({ length: n }, (_, i) =>
+      polar(s.cx, s.cy, s.r, -Math.PI / 4 + (2 * Math.PI * i) / n)
+    );
+  if (s.kind === "rect")
+    return resample(
+      [
+        [s.x0, s.y0],
+        [s.x1, s.y0],
+        [s.x1, s.y1],
+        [s.x0, s.y1],
+      ],
+      n
+    );
+  // arc: outer edge a0 → a1, then the inner edge back
+  const steps = 24;
+  const edge = (r: number, from: number, to: number) =>
+    Array.from({ length: steps + 1 }, (_, i) =>
+      polar(s.cx, s.cy, r, from + ((to - from) * i) / steps)
+    );
+  return resample([...edge(s.r1, s.a0, s.a1), ...edge(s.r0, s.a1, s.a0)], n);
+}
+
+export function lerpOutline(a: Point[], b: Point[], t: number): Point[] {
+  return a.map(([x, y], i) => [x + (b[i][0] - x) * t, y + (b[i][1] - y) * t]);
+}
+
+export function outlinePath(points: Point[]): string {
+  return `M${points.map(([x, y]) => `${x},${y}`).join("L")}Z`;
+}
+
+/** Where a shape's label goes and how much room it has */
+export function labelBox(s: NodeShape, header?: number) {
+  if (s.kind === "circle") return { x: s.cx, y: s.cy, width: 2 * s.r * 0.9 };
+  if (s.kind === "rect") {
+    const h = s.y1 - s.y0;
+    return {
+      x: (s.x0 + s.x1) / 2,
+      y: header !== undefined ? s.y0 + header / 2 : s.y0 + h / 2,
+      width: h >= 16 ? s.x1 - s.x0 - 8 : 0,
+    };
+  }
+  if (s.r0 === 0) return { x: s.cx, y: s.cy, width: 2 * s.r1 - 12 };
+  const [x, y] = polar(s.cx, s.cy, (s.r0 + s.r1) / 2, (s.a0 + s.a1) / 2);
+  const arcLength = (s.a1 - s.a0) * ((s.r0 + s.r1) / 2);
+  return {
+    x,
+    y,
+    width: arcLength >= 16 ? Math.min(arcLength, s.r1 - s.r0) : 0,
+  };
+}
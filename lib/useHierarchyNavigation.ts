@@ -0,0 +1,244 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import type { MouseEvent } from "react";
+import {
+  TreeNode,
+  ROOT_ID,
+  findNodeById,
+  findParentId,
+  findPathById,
+} from "@/lib/hierarchy";
+import type { LazyChildren } from "@/lib/useLazyChildren";
+
+/** Which part of a component a node was interacted with in */
+export type HierarchyView = "main" | "overlay";
+
+export type HierarchyNodeEvent = {
+  node: TreeNode;
+  path: TreeNode[]; // level-1 node → node (synthetic root omitted)
+  view: HierarchyView;
+  event: MouseEvent;
+};
+
+/**
+ * Controlled state + callbacks accepted by every hierarchy component.
+ * Focus values are node ids (see compositeId); omit them for internal state.
+ */
+export type HierarchyNavigationProps = {
+  focus?: string; // main focus node id (ROOT_ID = top level)
+  overlayFocus?: string | null; // overlay node id; null = closed
+  onFocusChange?: (id: string, path: TreeNode[]) => void;
+  onOverlayChange?: (id: string | null, path: TreeNode[]) => void;
+  onNodeClick?: (e: HierarchyNodeEvent) => void;
+  onNodeHover?: (e: HierarchyNodeEvent | null) => void; // null on leave
+  onNodeDoubleClick?: (e: HierarchyNodeEvent) => void;
+};
+
+export type HierarchyNavigation = {
+  focusId: string; // main view: whose children are shown
+  focusNode: TreeNode; // falls back to the root if the id left the tree
+  breadcrumb: TreeNode[]; // level-1 node → focus (synthetic root omitted)
+  isOverlayOpen: boolean;
+  overlayFocusId: string | null;
+  overlayNode: TreeNode | null;
+  pathTo: (id: string) => TreeNode[]; // like breadcrumb, for any node
+  canDrillDown: (node: TreeNode) => boolean;
+  drillDown: (node: TreeNode) => void; // focus `node` (main view)
+  drillUp: () => void; // focus the parent (main view; overlay untouched)
+  goTo: (path: string[]) => boolean; // focus by name path; [] = root
+  reveal: (node: TreeNode) => void; // focus its parent, closing the overlay
+  openOverlay: (node: TreeNode) => void;
+  overlayDrillDown: (node: TreeNode) => void;
+  overlayDrillUp: () => void;
+  closeOverlay: () => void;
+  /** Handlers for a rendered node: node callbacks first, then `onClick` */
+  getNodeProps: (
+    node: TreeNode,
+    view: HierarchyView,
+    onClick?: (e: MouseEvent) => void
+  ) => {
+    onClick: (e: MouseEvent) => void;
+    onDoubleClick: (e: MouseEvent) => void;
+    onMouseEnter: (e: MouseEvent) => void;
+    onMouseLeave: () => void;
+  };
+};
+
+/**
+ * Headless navigation state shared by the bubble components, for custom
+ * renderers that need the same semantics.
+ * - Focus ids are node ids, so they survive re-nesting / refetches
+ * - With `lazy`, drilling into a `hasChildren` node loads it first and
+ *   only moves once its children are in the tree
+ * - `focus` / `overlayFocus` make the state controlled: actions then only
+ *   report the requested change through `onFocusChange` / `onOverlayChange`
+ */
+export function useHierarchyNavigation(
+  tree: TreeNode,
+  {
+    lazy,
+    focus,
+    overlayFocus,
+    onFocusChange,
+    onOverlayChange,
+    onNodeClick,
+    onNodeHover,
+    onNodeDoubleClick,
+  }: HierarchyNavigationProps & { lazy?: LazyChildren } = {}
+): HierarchyNavigation {
+  // Start at synthetic root (shows all level-1 items)
+  const [innerFocus, setInnerFocus] = useState<string>(ROOT_ID);
+  const [innerOverlay, setInnerOverlay] = useState<string | null>(null);
+  const focusId = focus ?? innerFocus;
+  const overlayFocusId =
+    overlayFocus !== undefined ? overlayFocus : innerOverlay;
+
+  const focusNode = useMemo(
+    () => findNodeById(tree, focusId) ?? tree,
+    [tree, focusId]
+  );
+  const overlayNode = useMemo(
+    () => (overlayFocusId ? findNodeById(tree, overlayFocusId) : null),
+    [tree, overlayFocusId]
+  );
+
+  const pathTo = useCallback(
+    (id: string) => findPathById(tree, id).filter((n) => n.id !== ROOT_ID),
+    [tree]
+  );
+  const breadcrumb = useMemo(() => pathTo(focusNode.id), [pathTo, focusNode]);
+
+  const setFocusId = useCallback(
+    (id: string) => {
+      setInnerFocus(id);
+      onFocusChange?.(id, pathTo(id));
+    },
+    [onFocusChange, pathTo]
+  );
+  const setOverlayFocusId = useCallback(
+    (id: string | null) => {
+      setInnerOverlay(id);
+      onOverlayChange?.(id, id ? pathTo(id) : []);
+    },
+    [onOverlayChange, pathTo]
+  );
+
+  const canDrillDown = useCallback(
+    (node: TreeNode) => !!node.children?.length || !!lazy?.needsLoad(node),
+    [lazy]
+  );
+
+  // Load lazy children first (if any), then move
+  const withChildren = useCallback(
+    (node: TreeNode, move: () => void) => {
+      if (!lazy?.needsLoad(node)) return move();
+      const path = findPathById(tree, node.id).slice(1);
+      lazy
+        .load(
+          node,
+          path.map((p) => p.name)
+        )
+        .then((ok) => ok && move());
+    },
+    [tree, lazy]
+  );
+
+  const drillDown = useCallback(
+    (node: TreeNode) => {
+      if (canDrillDown(node)) withChildren(node, () => setFocusId(node.id));
+    },
+    [canDrillDown, withChildren, setFocusId]
+  );
+
+  const drillUp = useCallback(
+    () => setFocusId(findParentId(tree, focusNode.id) ?? ROOT_ID),
+    [tree, focusNode, setFocusId]
+  );
+
+  const goTo = useCallback(
+    (path: string[]) => {
+      let node: TreeNode | undefined = tree;
+      for (const name of path)
+        node = node?.children?.find((c) => c.name === name);
+      if (node) setFocusId(node.id);
+      return !!node;
+    },
+    [tree, setFocusId]
+  );
+
+  // Drill along the path so `node` is shown among its siblings
+  const reveal = useCallback(
+    (node: TreeNode) => {
+      if (overlayFocusId) setOverlayFocusId(null);
+      setFocusId(findParentId(tree, node.id) ?? ROOT_ID);
+    },
+    [tree, overlayFocusId, setFocusId, setOverlayFocusId]
+  );
+
+  const openOverlay = useCallback(
+    (node: TreeNode) => {
+      if (canDrillDown(node))
+        withChildren(node, () => setOverlayFocusId(node.id));
+    },
+    [canDrillDown, withChildren, setOverlayFocusId]
+  );
+  const overlayDrillDown = openOverlay;
+
+  // The overlay never climbs above the main focus: it closes instead
+  const overlayDrillUp = useCallback(() => {
+    if (!overlayFocusId) return;
+    const p = findParentId(tree, overlayFocusId);
+    setOverlayFocusId(p && p !== ROOT_ID && p !== focusNode.id ? p : null);
+  }, [tree, overlayFocusId, focusNode, setOverlayFocusId]);
+
+  const closeOverlay = useCallback(
+    () => setOverlayFocusId(null),
+    [setOverlayFocusId]
+  );
+
+  const getNodeProps = useCallback(
+    (
+      node: TreeNode,
+      view: HierarchyView,
+      onClick?: (e: MouseEvent) => void
+    ) => {
+      const detail = (event: MouseEvent) => ({
+        node,
+        path: pathTo(node.id),
+        view,
+        event,
+      });
+      return {
+        onClick: (e: MouseEvent) => {
+          onNodeClick?.(detail(e));
+          onClick?.(e);
+        },
+        onDoubleClick: (e: MouseEvent) => onNodeDoubleClick?.(detail(e)),
+        onMouseEnter: (e: MouseEvent) => onNodeHover?.(detail(e)),
+        onMouseLeave: () => onNodeHover?.(null),
+      };
+    },
+    [pathTo, onNodeClick, onNodeDoubleClick, onNodeHover]
+  );
+
+  return {
+    focusId: focusNode.id,
+    focusNode,
+    breadcrumb,
+    isOverlayOpen: !!overlayNode,
+    overlayFocusId: overlayNode ? overlayFocusId : null,
+    overlayNode,
+    pathTo,
+    canDrillDown,
+    drillDown,
+    drillUp,
+    goTo,
+    reveal,
+    openOverlay,
+    overlayDrillDown,
+    overlayDrillUp,
+    closeOverlay,
+    getNodeProps,
+  };
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import type { TreeNode } from "@/lib/hierarchy";
+import { searchHierarchy } from "@/lib/search";
+
+const DEFAULT_FIELDS = ["name"];
+
+/**
+ * Query + results for the bubble search box.
+ * - `selectedId`: the picked result (highlighted), cleared on a new query
+ * - `isDimmed(id)`: true while a query is active for nodes that neither
+ *   match nor contain a match
+ */
+export function useHierarchySearch(
+  tree: TreeNode,
+  fields: string[] = DEFAULT_FIELDS
+) {
+  const [query, setQueryState] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const results = useMemo(
+    () => searchHierarchy(tree, query, fields),
+    [tree, query, fields]
+  );
+
+  // Matches plus their ancestors, so the path to a match stays visible
+  const related = useMemo(() => {
+    const ids = new Set<string>();
+    for (const r of results) for (const n of r.path) ids.add(n.id);
+    return ids;
+  }, [results]);
+
+  const active = query.trim() !== "";
+  const isDimmed = useCallback(
+    (id: string) => active && !related.has(id),
+    [active, related]
+  );
+
+  const setQuery = useCallback((q: string) => {
+    setQueryState(q);
+    setSelectedId(null);
+  }, []);
+
+  return { query, setQuery, results, selectedId, setSelectedId, isDimmed };
+}
+
+export type HierarchySearch = ReturnType<typeof useHierarchySearch>;
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  LayoutInput,
+  LayoutKind,
+  LayoutResult,
+  WORKER_MIN_COST,
+  layoutCost,
+  runLayoutJob,
+  trimLayoutInput,
+} from "@/lib/layoutJobs";
+import type { LayoutMessage, LayoutRequest } from "@/lib/layout.worker";
+
+export type LayoutJobState<K extends LayoutKind> = {
+  result: LayoutResult<K> | null; // latest finished layout
+  stale: boolean; // `result` is for an earlier input; a newer one is running
+  progress: number | null; // 0…1 while a worker runs, else null
+  error: string | null;
+};
+
+let nextJobId = 0;
+
+/**
+ * Compute a layout (see LayoutJobs) without blocking the page.
+ * - cheap jobs (below WORKER_MIN_COST) run synchronously, as before
+ * - others run in a Web Worker; when `input` changes mid-run the worker
+ *   is terminated (a busy worker can't read a "stop" message) and the
+ *   new job starts on a fresh one; the last result stays available
+ * - if the worker can't start or the job fails in it, the job runs on
+ *   the main thread; `error` is set only if it fails there too
+ * Pass a memoized `input`; null means nothing to lay out.
+ */
+export function useLayoutJob<K extends LayoutKind>(
+  kind: K,
+  input: LayoutInput<K> | null
+): LayoutJobState<K> {
+  const offThread = useMemo(
+    () =>
+      !!input &&
+      typeof Worker !== "undefined" &&
+      layoutCost(kind, input) >= WORKER_MIN_COST,
+    [kind, input]
+  );
+  const syncResult = useMemo(
+    () => (input && !offThread ? runLayoutJob(kind, input) : null),
+    [kind, input, offThread]
+  );
+
+  const [done, setDone] = useState<{
+    input: LayoutInput<K>;
+    result: LayoutResult<K>;
+  } | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!input || !offThread) return;
+    const id = ++nextJobId;
+    const worker = new Worker(new URL("./layout.worker.ts", import.meta.url));
+    setProgress(0);
+    setError(null);
+
+    const runHere = () => {
+      try {
+        setDone({ input, result: runLayoutJob(kind, input) });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    worker.onmessage = (e: MessageEvent<LayoutMessage>) => {
+      const msg = e.data;
+      if (msg.id !== id) return;
+      if (msg.type === "progress") return setProgress(msg.done);
+      setProgress(null);
+      worker.terminate();
+      if (msg.type === "result")
+        setDone({ input, result: msg.result as LayoutResult<K> });
+      else runHere();
+    };
+    worker.onerror = () => {
+      setProgress(null);
+      worker.terminate();
+      runHere();
+    };
+
+    const request: LayoutRequest<K> = {
+      id,
+      kind,
+      input: trimLayoutInput(kind, input),
+    };
+    worker.postMessage(request);
+    return () => worker.terminate();
+  }, [kind, input, offThread]);
+
+  if (!offThread)
+    return { result: syncResult, stale: false, progress: null, error: null };
+  return {
+    result: done?.result ?? null,
+    stale: done?.input !== input,
+    progress,
+    error,
+  };
+}
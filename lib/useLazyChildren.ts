@@ -0,0 +1,87 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import { FlatItem, NestedItem, TreeNode, flattenNested } from "@/lib/hierarchy";
+
+/** Resolve the direct children (optionally with their own subtrees) of a node */
+export type LoadChildren = (node: TreeNode) => Promise<NestedItem[]>;
+
+/** LoadChildren backed by GET `${url}?id=<node id>` returning NestedItem[] */
+export function childrenFromUrl(url: string): LoadChildren {
+  return async (node) => {
+    const sep = url.includes("?") ? "&" : "?";
+    const r = await fetch(`${url}${sep}id=${encodeURIComponent(node.id)}`);
+    if (!r.ok) throw new Error(`HTTP ${r.status}`);
+    return r.json();
+  };
+}
+
+export type LazyChildren = ReturnType<typeof useLazyChildren>;
+
+/**
+ * Children fetched on drill-down, cached per node id.
+ * - `rows` are FlatItems to append to the base data before nesting
+ * - `needsLoad(node)` is true for `hasChildren` nodes not loaded yet
+ * - `load(node, path)` resolves to true once the children are in `rows`;
+ *   `path` is the node's name path (for composite ids of the children)
+ */
+export function useLazyChildren(loadChildren?: LoadChildren) {
+  const [loaded, setLoaded] = useState<Map<string, FlatItem[]>>(new Map());
+  const [pending, setPending] = useState<Set<string>>(new Set());
+  const [errors, setErrors] = useState<Map<string, string>>(new Map());
+  const inFlight = useRef(new Set<string>());
+
+  const rows = useMemo(() => Array.from(loaded.values()).flat(), [loaded]);
+
+  const needsLoad = useCallback(
+    (node: TreeNode) =>
+      !!loadChildren &&
+      !!node.hasChildren &&
+      !node.children?.length &&
+      !loaded.has(node.id),
+    [loadChildren, loaded]
+  );
+
+  const load = useCallback(
+    async (node: TreeNode, path: string[]): Promise<boolean> => {
+      if (!loadChildren) return false;
+      if (loaded.has(node.id)) return true;
+      if (inFlight.current.has(node.id)) return false;
+
+      const id = node.id;
+      inFlight.current.add(id);
+      setPending((s) => new Set(s).add(id));
+      setErrors((m) => {
+        const next = new Map(m);
+        next.delete(id);
+        return next;
+      });
+      try {
+        const children = await loadChildren(node);
+        const childRows = flattenNested(children, {
+          id,
+          path,
+          source: node.source,
+        });
+        setLoaded((m) => new Map(m).set(id, childRows));
+        return true;
+      } catch (e) {
+        setErrors((m) => new Map(m).set(id, String(e)));
+        return false;
+      } finally {
+        inFlight.current.delete(id);
+        setPending((s) => {
+          const next = new Set(s);
+          next.delete(id);
+          return next;
+        });
+      }
+    },
+    [loadChildren, loaded]
+  );
+
+  return useMemo(
+    () => ({ rows, pending, errors, needsLoad, load }),
+    [rows, pending, errors, needsLoad, load]
+  );
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { TreeNode } from "@/lib/hierarchy";
+import {
+  Aggregation,
+  DEFAULT_METRIC,
+  measureNames,
+  rollup,
+} from "@/lib/measures";
+
+/**
+ * Selected size metric + aggregation for a tree, and the resulting
+ * rolled-up size of every node (by id).
+ * - `sizeBy` / `aggregation` are initial values; the setters switch them
+ * - an unknown metric (e.g. before remote data arrives) falls back to "value"
+ */
+export function useMeasures(
+  tree: TreeNode,
+  {
+    sizeBy: initialSizeBy = DEFAULT_METRIC,
+    aggregation: initialAggregation = "sum",
+  }: { sizeBy?: string; aggregation?: Aggregation } = {}
+) {
+  const [selected, setSizeBy] = useState(initialSizeBy);
+  const [aggregation, setAggregation] =
+    useState<Aggregation>(initialAggregation);
+
+  const metrics = useMemo(() => measureNames(tree), [tree]);
+  const sizeBy = metrics.includes(selected) ? selected : DEFAULT_METRIC;
+  const sizes = useMemo(
+    () => rollup(tree, sizeBy, aggregation),
+    [tree, sizeBy, aggregation]
+  );
+
+  return { metrics, sizeBy, setSizeBy, aggregation, setAggregation, sizes };
+}
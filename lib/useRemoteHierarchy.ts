@@ -0,0 +1,70 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FlatItem, toFlatItems } from "@/lib/hierarchy";
+
+export type RemoteHierarchy = {
+  items: FlatItem[] | null; // last good payload for the current url
+  error: string | null;
+  loading: boolean;
+  retry: () => void;
+};
+
+/**
+ * Fetch hierarchy rows from `url` (no-op when undefined), like useDataset
+ * in FinanceSigmaGraph plus:
+ * - aborts the in-flight request on unmount / url change
+ * - `retry()` re-runs the request after an error
+ * - `refreshInterval` (ms) polls; stale rows stay visible while refreshing
+ */
+export function useRemoteHierarchy(
+  url: string | undefined,
+  { refreshInterval }: { refreshInterval?: number } = {}
+): RemoteHierarchy {
+  const [loaded, setLoaded] = useState<{
+    url: string;
+    items: FlatItem[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!url) return;
+    let ctrl: AbortController | null = null;
+    setError(null);
+
+    const load = () => {
+      ctrl?.abort();
+      const c = (ctrl = new AbortController());
+      setLoading(true);
+      fetch(url, { signal: c.signal })
+        .then((r) => {
+          if (!r.ok) throw new Error(`HTTP ${r.status}`);
+          return r.json();
+        })
+        .then((json) => {
+          setLoaded({ url, items: toFlatItems(json) });
+          setError(null);
+        })
+        .catch((e) => !c.signal.aborted && setError(String(e)))
+        .finally(() => !c.signal.aborted && setLoading(false));
+    };
+
+    load();
+    const timer = refreshInterval ? setInterval(load, refreshInterval) : null;
+    return () => {
+      ctrl?.abort();
+      if (timer) clearInterval(timer);
+    };
+  }, [url, refreshInterval, attempt]);
+
+  const retry = useCallback(() => setAttempt((a) => a + 1), []);
+
+  return {
+    items: url && loaded?.url === url ? loaded.items : null,
+    error: url ? error : null,
+    loading: !!url && loading,
+    retry,
+  };
+}
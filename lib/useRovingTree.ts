@@ -0,0 +1,141 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+
+/** One focusable bubble, in visual order */
+export type RovingItem = {
+  id: string;
+  parentId: string | null; // null (or an id not in the list) = top of this view
+  level: number; // depth in the whole hierarchy (aria-level)
+  branch: boolean; // has (or can load) children
+};
+
+type Options = {
+  onEnter: (id: string) => void; // Enter / Space
+  onBack: () => string | void; // Backspace; may return the id to focus next
+  onEscape?: () => string | void; // defaults to onBack
+  // When this changes to a non-null value the active item takes DOM focus
+  // (e.g. the overlay's node id, so opening / drilling moves focus into it)
+  focusKey?: string | null;
+};
+
+/**
+ * Roving tabindex + ARIA treeitem props for SVG bubbles.
+ * - one item per view is tabbable; Left/Right move between siblings,
+ *   Down to the first visible child, Up to the visible parent,
+ *   Home/End to the first/last sibling
+ * - `getItemProps(id)` returns role, aria-level/posinset/setsize/expanded,
+ *   tabIndex, ref and key/focus handlers to spread onto the element
+ */
+export function useRovingTree(
+  items: RovingItem[],
+  { onEnter, onBack, onEscape, focusKey }: Options
+) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const els = useRef(new Map<string, HTMLElement | SVGElement>());
+
+  const index = useMemo(() => {
+    const byId = new Map(items.map((it) => [it.id, it]));
+    const siblings = new Map<string | null, string[]>();
+    for (const it of items) {
+      const key = it.parentId && byId.has(it.parentId) ? it.parentId : null;
+      const list = siblings.get(key);
+      if (list) list.push(it.id);
+      else siblings.set(key, [it.id]);
+    }
+    const groupOf = (id: string) => {
+      const p = byId.get(id)?.parentId;
+      return siblings.get(p && byId.has(p) ? p : null) ?? [];
+    };
+    return { byId, siblings, groupOf };
+  }, [items]);
+
+  const current =
+    activeId && index.byId.has(activeId) ? activeId : (items[0]?.id ?? null);
+
+  const move = useCallback((id: string | null | undefined) => {
+    if (!id) return;
+    setActiveId(id);
+    els.current.get(id)?.focus({ preventScroll: true });
+  }, []);
+
+  // Focus follows keyboard-driven view changes (see focusKey)
+  const lastKey = useRef(focusKey);
+  useEffect(() => {
+    if (focusKey === lastKey.current) return;
+    lastKey.current = focusKey;
+    if (focusKey != null && current)
+      els.current.get(current)?.focus({ preventScroll: true });
+  }, [focusKey, current]);
+
+  const onKeyDown = (e: KeyboardEvent, id: string) => {
+    const group = index.groupOf(id);
+    const i = group.indexOf(id);
+    const n = group.length;
+    switch (e.key) {
+      case "ArrowRight":
+        move(group[(i + 1) % n]);
+        break;
+      case "ArrowLeft":
+        move(group[(i - 1 + n) % n]);
+        break;
+      case "ArrowDown":
+        move(index.siblings.get(id)?.[0]);
+        break;
+      case "ArrowUp":
+        move(index.byId.get(id)?.parentId);
+        break;
+      case "Home":
+        move(group[0]);
+        break;
+      case "End":
+        move(group[n - 1]);
+        break;
+      case "Enter":
+      case " ":
+        onEnter(id);
+        break;
+      case "Backspace":
+      case "Escape": {
+        const next = (e.key === "Escape" ? (onEscape ?? onBack) : onBack)();
+        if (next) setActiveId(next);
+        break;
+      }
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const getItemProps = (id: string) => {
+    const it = index.byId.get(id);
+    const group = index.groupOf(id);
+    return {
+      ref: (el: HTMLElement | SVGElement | null) => {
+        if (el) els.current.set(id, el);
+        else els.current.delete(id);
+      },
+      role: "treeitem",
+      tabIndex: id === current ? 0 : -1,
+      "aria-level": it?.level,
+      "aria-posinset": group.indexOf(id) + 1,
+      "aria-setsize": group.length,
+      "aria-expanded": it?.branch ? index.siblings.has(id) : undefined,
+      onKeyDown: (e: KeyboardEvent) => onKeyDown(e, id),
+      onFocus: () => setActiveId(id),
+    };
+  };
+
+  return { activeId: current, getItemProps };
+}
+
+/** Visible focus ring for treeitems (SVG has no default outline) */
+export const TREEITEM_FOCUS_CSS = `
+  [role="treeitem"] { outline: none; }
+  [role="treeitem"]:focus-visible > circle {
+    stroke: #93c5fd;
+    stroke-width: 3px;
+  }
+`;
@@ -0,0 +1,150 @@
+"use client";
+
+import { useCallback, useEffect, useMemo } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { ROOT_ID } from "@/lib/hierarchy";
+import type { HierarchyNavigationProps } from "@/lib/useHierarchyNavigation";
+
+type QueryUpdate = {
+  updates: Record<string, string | null>;
+  push: boolean;
+  shallow: boolean;
+};
+
+// Updates queued in the current tick, flushed as one navigation
+let queued: QueryUpdate | null = null;
+// Query of the last navigation until the router commits it (until then
+// window.location still shows the previous URL)
+let committing: string | null = null;
+
+/**
+ * Query-string state through the Next.js router.
+ * - `set` merges updates into the current query (null removes a key);
+ *   updates in one tick become a single navigation
+ * - `push` adds a history entry (drill steps); otherwise the entry is
+ *   replaced (filters)
+ * - `shallow` only rewrites the URL (history.replaceState) without a
+ *   router navigation, for frequent updates like camera moves
+ * Pages using this must render it inside <Suspense> (useSearchParams).
+ */
+export function useQueryState() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const params = useSearchParams();
+
+  // The router caught up: the live URL is current again
+  useEffect(() => {
+    committing = null;
+  }, [params]);
+
+  const set = useCallback(
+    (
+      updates: Record<string, string | null>,
+      {
+        push = false,
+        shallow = false,
+      }: { push?: boolean; shallow?: boolean } = {}
+    ) => {
+      if (queued) {
+        Object.assign(queued.updates, updates);
+        queued.push ||= push;
+        queued.shallow &&= shallow;
+        return;
+      }
+      queued = { updates: { ...updates }, push, shallow };
+      queueMicrotask(() => {
+        const { updates, push, shallow } = queued!;
+        queued = null;
+        const next = new URLSearchParams(committing ?? window.location.search);
+        for (const [k, v] of Object.entries(updates)) {
+          if (v === null) next.delete(k);
+          else next.set(k, v);
+        }
+        const qs = next.toString();
+        const url = qs ? `${pathname}?${qs}` : pathname;
+        if (shallow) window.history.replaceState(null, "", url);
+        else {
+          committing = qs;
+          if (push) router.push(url, { scroll: false });
+          else router.replace(url, { scroll: false });
+        }
+      });
+    },
+    [router, pathname]
+  );
+
+  return { params, set };
+}
+
+/**
+ * Controlled focus / overlay props for a hierarchy component, stored as
+ * `<key>.focus` and `<key>.overlay` (node ids). Every drill is a history
+ * entry, so back/forward steps through it.
+ */
+export function useHierarchyUrlState(
+  key: string
+): Pick<
+  HierarchyNavigationProps,
+  "focus" | "overlayFocus" | "onFocusChange" | "onOverlayChange"
+> {
+  const { params, set } = useQueryState();
+  const focusKey = `${key}.focus`;
+  const overlayKey = `${key}.overlay`;
+
+  return {
+    focus: params.get(focusKey) ?? ROOT_ID,
+    overlayFocus: params.get(overlayKey),
+    onFocusChange: useCallback(
+      (id: string) =>
+        set({ [focusKey]: id === ROOT_ID ? null : id }, { push: true }),
+      [set, focusKey]
+    ),
+    onOverlayChange: useCallback(
+      (id: string | null) => set({ [overlayKey]: id }, { push: true }),
+      [set, overlayKey]
+    ),
+  };
+}
+
+export type CameraPosition = { x: number; y: number; ratio: number };
+
+/** "x,y,ratio" ⇄ CameraPosition (null for missing / malformed values) */
+export function parseCamera(value: string | null): CameraPosition | null {
+  const parts = value?.split(",").map(Number) ?? [];
+  if (parts.length !== 3 || !parts.every(Number.isFinite)) return null;
+  const [x, y, ratio] = parts;
+  return ratio > 0 ? { x, y, ratio } : null;
+}
+
+export function formatCamera({ x, y, ratio }: CameraPosition): string {
+  return [x, y, ratio].map((v) => +v.toFixed(4)).join(",");
+}
+
+/**
+ * Focused node (`node`, one history entry per focus), camera (`cam`) and
+ * hidden clusters (`hide`, comma-separated) for FinanceSigmaGraph.
+ */
+export function useGraphUrlState() {
+  const { params, set } = useQueryState();
+  const node = params.get("node");
+  const cam = params.get("cam");
+  const hide = params.get("hide");
+
+  return {
+    focus: node,
+    onFocusChange: useCallback(
+      (id: string | null) => set({ node: id }, { push: true }),
+      [set]
+    ),
+    camera: useMemo(() => parseCamera(cam), [cam]),
+    onCameraChange: useCallback(
+      (c: CameraPosition) => set({ cam: formatCamera(c) }, { shallow: true }),
+      [set]
+    ),
+    hiddenClusters: useMemo(() => (hide ? hide.split(",") : []), [hide]),
+    onHiddenClustersChange: useCallback(
+      (keys: string[]) => set({ hide: keys.length ? keys.join(",") : null }),
+      [set]
+    ),
+  };
+}
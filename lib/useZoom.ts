@@ -0,0 +1,71 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { easeCubicOut, select, zoom, zoomIdentity } from "d3";
+import type { RefObject } from "react";
+import type { ZoomBehavior } from "d3";
+
+/** Pan/zoom of a layer: screen = layer * k + (x, y) */
+export type ViewTransform = { x: number; y: number; k: number };
+
+/**
+ * d3-zoom on an element: mouse-wheel zoom, drag pan and touch pinch.
+ * - `transform` follows every gesture; apply it to the zooming layer
+ * - `zoomTo(t, duration)` moves there (animated when duration > 0);
+ *   a new gesture interrupts the animation
+ * Double-click zoom is disabled so node double-click callbacks still fire,
+ * and a press that moves more than a few pixels is a pan, not a click.
+ */
+export function useZoom<E extends Element>(
+  ref: RefObject<E | null>,
+  { minScale = 0.5, maxScale = 64 }: { minScale?: number; maxScale?: number }
+) {
+  const [transform, setTransform] = useState<ViewTransform>({
+    x: 0,
+    y: 0,
+    k: 1,
+  });
+  const behavior = useRef<ZoomBehavior<E, unknown> | null>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const z = zoom<E, unknown>()
+      .clickDistance(4)
+      .on("zoom", (e) => {
+        const { x, y, k } = e.transform;
+        setTransform({ x, y, k });
+      });
+    const sel = select(el);
+    sel.call(z).on("dblclick.zoom", null);
+    behavior.current = z;
+    return () => {
+      sel.interrupt().on(".zoom", null);
+      behavior.current = null;
+    };
+  }, [ref]);
+
+  useEffect(() => {
+    behavior.current?.scaleExtent([minScale, maxScale]);
+  }, [minScale, maxScale]);
+
+  const zoomTo = useCallback(
+    ({ x, y, k }: ViewTransform, duration = 0) => {
+      const el = ref.current;
+      const z = behavior.current;
+      if (!el || !z) return;
+      const target = zoomIdentity.translate(x, y).scale(k);
+      const sel = select(el);
+      if (duration > 0)
+        sel
+          .transition()
+          .duration(duration)
+          .ease(easeCubicOut)
+          .call(z.transform, target);
+      else sel.interrupt().call(z.transform, target);
+    },
+    [ref]
+  );
+
+  return { transform, zoomTo };
+}